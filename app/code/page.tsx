@@ -0,0 +1,21 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+
+import { CodeDetail } from "@/components/CodeDetail";
+
+export const metadata: Metadata = {
+  title: "Detajet e kodit tarifor | Shfletuesi i Tarifave Doganore",
+};
+
+export default function CodePage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto flex min-h-screen flex-col gap-10 px-4 py-8 sm:px-6 lg:py-12">
+        {/* The code comes from ?code=, so the static export renders it client-side */}
+        <Suspense>
+          <CodeDetail />
+        </Suspense>
+      </main>
+    </div>
+  );
+}
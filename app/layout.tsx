@@ -1,5 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { AppUpdatePrompt } from "@/components/AppUpdatePrompt";
+import { LocaleSwitcher } from "@/components/LocaleSwitcher";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -18,6 +20,10 @@ export const metadata: Metadata = {
     "Shfletoni dhe kërkoni tarifat doganore të Republikës së Kosovës sipas kodit, përshkrimit ose masave të zbatueshme.",
 };
 
+export const viewport: Viewport = {
+  themeColor: "#171717",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -28,7 +34,11 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
+        <div className="container mx-auto flex justify-end px-4 pt-4 sm:px-6">
+          <LocaleSwitcher />
+        </div>
         {children}
+        <AppUpdatePrompt />
       </body>
     </html>
   );
@@ -0,0 +1,27 @@
+import type { MetadataRoute } from "next";
+
+export const dynamic = "force-static";
+
+// URLs are relative to the manifest, which is served under basePath.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Shfletuesi i Tarifave Doganore",
+    short_name: "Tarifat",
+    description:
+      "Shfletoni dhe kërkoni tarifat doganore të Republikës së Kosovës, edhe pa internet.",
+    lang: "sq",
+    start_url: "./",
+    scope: "./",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#171717",
+    icons: [
+      {
+        src: "icon.svg",
+        sizes: "any",
+        type: "image/svg+xml",
+        purpose: "any",
+      },
+    ],
+  };
+}
@@ -1,23 +1,26 @@
+'use client';
+
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardHeader } from "@/components/ui/card";
 import { CustomsExplorer } from "@/components/CustomsExplorer";
+import { useI18n } from "@/components/LocaleSwitcher";
 import { AlertTriangle, Github } from "lucide-react";
+import { Suspense } from "react";
 
 const buildTime = process.env.NEXT_PUBLIC_BUILD_TIME ?? "—";
 
 export default function Home() {
+  const { t } = useI18n();
   return (
     <div className="min-h-screen bg-background">
       <main className="container mx-auto flex min-h-screen flex-col gap-10 px-4 py-8 sm:px-6 lg:py-12">
         <section className="space-y-8">
           <header className="space-y-3">
             <h1 className="text-2xl font-semibold tracking-tight text-foreground sm:text-3xl">
-              Shfletuesi i Tarifave Doganore të Republikës së Kosovës
+              {t("home.title")}
             </h1>
             <p className="max-w-2xl text-sm text-muted-foreground sm:text-base">
-              Kërkoni dhe shfletoni tarifat doganore sipas kodit, përshkrimit ose
-              llogaritni detyrimet për një vlerë të caktuar. Rezultatet përditësohen
-              në çast ndërsa filtroni.
+              {t("home.intro")}
             </p>
           </header>
 
@@ -26,14 +29,14 @@ export default function Home() {
               <CardHeader className=" px-0">
                 <div className="flex justify-between items-start">
                   <p className="text-md font-bold uppercase tracking-wide">
-                    Përditësuar / Last updated
+                    {t("home.lastUpdated")}
                   </p>
                   <time title={buildTime} dateTime={buildTime}>
                     {buildTime}
                   </time>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Të dhënat rifreskohen periodikisht nga burimet publike të Doganës së Kosovës.
+                  {t("home.dataRefresh")}
                 </p>
               </CardHeader>
             </Card>
@@ -41,21 +44,23 @@ export default function Home() {
             <Alert className="border-amber-200 bg-amber-50 text-amber-900">
               <AlertTitle className="flex items-center gap-2 text-sm font-semibold">
                 <AlertTriangle aria-hidden className="h-4 w-4" />
-                Informacion i rëndësishëm
+                {t("home.noticeTitle")}
               </AlertTitle>
               <AlertDescription className="space-y-2 text-xs text-amber-900 sm:text-sm">
                 <p>
-                  Ky aplikacion është jo-zyrtar dhe
-                  <strong> nuk përfaqëson Doganën e Kosovës</strong>. Të dhënat
-                  ngarkohen nga burime publike dhe mund të jenë të papërditësuara.
-                  Për informata zyrtare, referojuni publikimeve zyrtare.
+                  {t("home.noticeBefore")}
+                  <strong> {t("home.noticeStrong")}</strong>
+                  {t("home.noticeAfter")}
                 </p>
               </AlertDescription>
             </Alert>
           </div>
         </section>
 
-        <CustomsExplorer />
+        {/* useSearchParams needs a Suspense boundary in the static export */}
+        <Suspense>
+          <CustomsExplorer />
+        </Suspense>
 
         <footer className="mt-auto border-t border-border/60 pt-6 text-xs text-muted-foreground sm:text-sm">
           <a
@@ -65,7 +70,7 @@ export default function Home() {
             target="_blank"
           >
             <Github aria-hidden className="h-4 w-4" />
-            Shih kodin burimor në GitHub
+            {t("home.sourceLink")}
           </a>
         </footer>
       </main>
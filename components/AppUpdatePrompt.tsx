@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useRef, useState } from "react";
+import { RefreshCw } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+
+const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? "";
+
+/**
+ * Registers the service worker generated at build time and offers to reload
+ * once a newer build has been downloaded in the background.
+ */
+export function AppUpdatePrompt() {
+  const { t } = useI18n();
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const updateRequestedRef = useRef(false);
+
+  useEffect(() => {
+    // `out/sw.js` only exists in production builds
+    if (process.env.NODE_ENV !== "production") return;
+    if (!("serviceWorker" in navigator)) return;
+
+    const { serviceWorker } = navigator;
+    let cancelled = false;
+
+    // The first install also claims the page; only reload when asked to
+    const handleControllerChange = () => {
+      if (updateRequestedRef.current) window.location.reload();
+    };
+    serviceWorker.addEventListener("controllerchange", handleControllerChange);
+
+    const offerUpdate = (worker: ServiceWorker) => {
+      if (!cancelled && serviceWorker.controller) setWaitingWorker(worker);
+    };
+
+    serviceWorker
+      .register(`${BASE_PATH}/sw.js`, { scope: `${BASE_PATH}/` })
+      .then((registration) => {
+        if (registration.waiting) offerUpdate(registration.waiting);
+        registration.addEventListener("updatefound", () => {
+          const installing = registration.installing;
+          if (!installing) return;
+          installing.addEventListener("statechange", () => {
+            if (installing.state === "installed") offerUpdate(installing);
+          });
+        });
+      })
+      .catch((error) => {
+        console.error("Service worker registration failed:", error);
+      });
+
+    return () => {
+      cancelled = true;
+      serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+    };
+  }, []);
+
+  if (!waitingWorker) return null;
+
+  const handleUpdate = () => {
+    updateRequestedRef.current = true;
+    waitingWorker.postMessage({ type: "SKIP_WAITING" });
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md flex-wrap items-center gap-3 rounded-lg border bg-background p-4 text-sm shadow-lg"
+    >
+      <p className="flex-1">{t("update.available")}</p>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setWaitingWorker(null)}
+        >
+          {t("update.later")}
+        </Button>
+        <Button type="button" size="sm" onClick={handleUpdate}>
+          <RefreshCw />
+          {t("update.reload")}
+        </Button>
+      </div>
+    </div>
+  );
+}
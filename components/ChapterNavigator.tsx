@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useMemo, useState } from "react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import { formatPercent } from "@/lib/formatters";
+import {
+  groupBySection,
+  type ChapterSummary,
+} from "@/lib/hs-sections";
+import type { Locale } from "@/lib/i18n";
+import { getOriginOption, type OriginId } from "@/lib/origin";
+import { cn } from "@/lib/utils";
+
+type ChapterNavigatorProps = {
+  ready: boolean;
+  origin: OriginId;
+  /** Current code prefix; the chapter it falls in is highlighted. */
+  codePrefix: string;
+  onSelect: (prefix: string) => void;
+};
+
+function formatRange({ min, max }: { min: number; max: number }, locale: Locale) {
+  return min === max
+    ? formatPercent(min, locale)
+    : `${formatPercent(min, locale)}–${formatPercent(max, locale)}`;
+}
+
+/** HS sections and chapters with their sizes and rate ranges. */
+export function ChapterNavigator({
+  ready,
+  origin,
+  codePrefix,
+  onSelect,
+}: ChapterNavigatorProps) {
+  const { locale, t } = useI18n();
+  const [chapters, setChapters] = useState<ChapterSummary[]>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+    CustomsWorkerClient.getChapterSummaries()
+      .then((next) => {
+        if (cancelled) return;
+        setChapters(next);
+        setLoadFailed(false);
+      })
+      .catch((error) => {
+        console.error("Failed to load chapter summaries:", error);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ready]);
+
+  const sections = useMemo(() => groupBySection(chapters), [chapters]);
+  const { rateField } = getOriginOption(origin);
+  const activeChapter = codePrefix.length >= 2 ? codePrefix.slice(0, 2) : null;
+
+  return (
+    <Card className="gap-4 lg:sticky lg:top-4 lg:self-start">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">
+          {t("navigator.title")}
+        </CardTitle>
+        <CardDescription className="text-xs text-muted-foreground">
+          {t("navigator.description")}
+        </CardDescription>
+        {codePrefix ? (
+          <CardAction>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onSelect("")}
+            >
+              {t("navigator.clear")}
+            </Button>
+          </CardAction>
+        ) : null}
+      </CardHeader>
+      <CardContent className="px-2">
+        {loadFailed ? (
+          <p className="px-4 text-xs text-destructive">{t("common.loadFailed")}</p>
+        ) : sections.length === 0 ? (
+          <p className="px-4 text-xs text-muted-foreground">
+            {t("common.loading")}
+          </p>
+        ) : (
+          <nav
+            aria-label={t("navigator.title")}
+            className="max-h-[calc(100vh-12rem)] space-y-1 overflow-y-auto"
+          >
+            {sections.map(({ section, chapters: sectionChapters, count }) => (
+              <details
+                key={section.id}
+                open={
+                  sectionChapters.some(
+                    (summary) => summary.chapter === activeChapter,
+                  ) || undefined
+                }
+                className="rounded-md"
+              >
+                <summary className="cursor-pointer rounded-md px-2 py-1.5 text-sm hover:bg-muted/60">
+                  <span className="font-medium">
+                    {t("navigator.section", { roman: section.roman })}
+                  </span>{" "}
+                  <span className="text-muted-foreground">
+                    {t(`hsSection.${section.id}`)}
+                  </span>
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    ({count})
+                  </span>
+                </summary>
+                <ul className="mt-1 space-y-0.5 pl-2">
+                  {sectionChapters.map((summary) => {
+                    const active = summary.chapter === activeChapter;
+                    return (
+                      <li key={summary.chapter}>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            onSelect(
+                              codePrefix === summary.chapter ? "" : summary.chapter,
+                            )
+                          }
+                          aria-current={active ? "true" : undefined}
+                          className={cn(
+                            "flex w-full flex-col gap-0.5 rounded-md px-2 py-1.5 text-left text-xs hover:bg-muted/60",
+                            active && "bg-amber-50 hover:bg-amber-100/60",
+                          )}
+                        >
+                          <span className="flex gap-2">
+                            <span className="font-mono font-medium">
+                              {summary.chapter}
+                            </span>
+                            <span className="line-clamp-2">
+                              {summary.title ??
+                                t("navigator.chapter", { chapter: summary.chapter })}
+                            </span>
+                          </span>
+                          <span className="text-muted-foreground">
+                            {t("navigator.summary", {
+                              count: summary.count,
+                              duty: formatRange(summary.rates[rateField], locale),
+                              vat: formatRange(summary.rates.tvsh, locale),
+                            })}
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </details>
+            ))}
+          </nav>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { ArrowLeft, ChevronRight, FileText } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useI18n } from "@/components/LocaleSwitcher";
+import { RateTimeline } from "@/components/RateTimeline";
+import type {
+  CodeDetail as CodeDetailData,
+  CustomsRecord,
+} from "@/lib/database";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import { RATE_FIELDS } from "@/lib/dataset-diff";
+import { formatDate, formatPercent } from "@/lib/formatters";
+import { describeUom } from "@/lib/uom";
+
+type DetailState = {
+  code: string;
+  detail: CodeDetailData | null;
+  failed: boolean;
+};
+
+function codeHref(code: string) {
+  return { pathname: "/code", query: { code } };
+}
+
+function RecordList({
+  records,
+  emptyText,
+}: {
+  records: CustomsRecord[];
+  emptyText: string;
+}) {
+  if (records.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyText}</p>;
+  }
+  return (
+    <ul className="max-h-96 divide-y overflow-y-auto text-sm">
+      {records.map((record) => (
+        <li key={record.code}>
+          <Link
+            href={codeHref(record.code)}
+            className="flex gap-4 py-2 transition-colors hover:bg-muted/40"
+          >
+            <span className="w-28 shrink-0 font-mono">{record.code}</span>
+            <span className="min-w-0 flex-1 truncate" title={record.description}>
+              {record.description || "—"}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function CodeDetail() {
+  const searchParams = useSearchParams();
+  const code = searchParams.get("code")?.trim() ?? "";
+  const { locale, t } = useI18n();
+  const [state, setState] = useState<DetailState | null>(null);
+
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        // Visitors may land here first, so make sure the data is cached.
+        // `false` also means "already cached", so failures come via progress.
+        let importFailed = false;
+        await CustomsWorkerClient.initializeData({
+          onProgress: (progress) => {
+            if (progress.phase === "error") importFailed = true;
+          },
+        });
+        if (importFailed) {
+          if (!cancelled) setState({ code, detail: null, failed: true });
+          return;
+        }
+        const detail = await CustomsWorkerClient.getCodeDetail(code);
+        if (!cancelled) setState({ code, detail, failed: false });
+      } catch (error) {
+        console.error("Failed to load code detail:", { code, error });
+        if (!cancelled) setState({ code, detail: null, failed: true });
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  const backLink = (
+    <Link
+      href={code ? { pathname: "/", query: { focus: code } } : "/"}
+      className="inline-flex items-center gap-2 text-sm font-medium text-muted-foreground transition hover:text-foreground"
+    >
+      <ArrowLeft aria-hidden className="h-4 w-4" />
+      {t("detail.back")}
+    </Link>
+  );
+
+  if (!code) {
+    return (
+      <div className="space-y-4">
+        {backLink}
+        <p className="text-sm text-muted-foreground">{t("detail.noCode")}</p>
+      </div>
+    );
+  }
+
+  if (!state || state.code !== code) {
+    return (
+      <div className="space-y-4">
+        {backLink}
+        <p className="text-sm text-muted-foreground" aria-live="polite">
+          {t("common.loading")}
+        </p>
+      </div>
+    );
+  }
+
+  if (state.failed) {
+    return (
+      <div className="space-y-4">
+        {backLink}
+        <p className="text-sm text-destructive">{t("common.loadFailed")}</p>
+      </div>
+    );
+  }
+
+  const { detail } = state;
+  if (!detail) {
+    return (
+      <div className="space-y-4">
+        {backLink}
+        <p className="text-sm text-muted-foreground">
+          {t("detail.notFound", { code })}
+        </p>
+      </div>
+    );
+  }
+
+  const { record, ancestors, siblings, children } = detail;
+  const translated = locale === "sq" ? undefined : record.descriptions?.[locale];
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      <nav aria-label={t("detail.breadcrumb")}>
+        <ol className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+          {ancestors.map((ancestor) => (
+            <li key={ancestor.code} className="flex items-center gap-1">
+              <Link
+                href={codeHref(ancestor.code)}
+                className="font-mono underline-offset-4 hover:text-foreground hover:underline"
+                title={ancestor.description}
+              >
+                {ancestor.code}
+              </Link>
+              <ChevronRight aria-hidden className="h-3.5 w-3.5" />
+            </li>
+          ))}
+          <li aria-current="page" className="font-mono font-medium text-foreground">
+            {record.code}
+          </li>
+        </ol>
+      </nav>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-mono text-2xl font-semibold">
+            {record.code}
+          </CardTitle>
+          <CardDescription className="text-base text-foreground" lang="sq">
+            {record.description || "—"}
+          </CardDescription>
+          {translated ? (
+            <p className="text-sm text-muted-foreground" lang={locale}>
+              {translated}
+            </p>
+          ) : null}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {ancestors.length > 0 ? (
+            <ol className="space-y-1 text-sm text-muted-foreground">
+              {ancestors.map((ancestor, index) => (
+                <li key={ancestor.code} style={{ paddingLeft: index * 12 }}>
+                  <span className="font-mono">{ancestor.code}</span> —{" "}
+                  {ancestor.description}
+                </li>
+              ))}
+            </ol>
+          ) : null}
+
+          <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-8">
+            {RATE_FIELDS.map((field) => (
+              <div key={field} className="rounded-lg border px-3 py-2">
+                <dt className="text-xs uppercase tracking-wide text-muted-foreground">
+                  {t(`rate.${field}`)}
+                </dt>
+                <dd className="text-lg font-semibold tabular-nums">
+                  {formatPercent(record[field], locale)}
+                </dd>
+              </div>
+            ))}
+            <div className="rounded-lg border px-3 py-2">
+              <dt className="text-xs uppercase tracking-wide text-muted-foreground">
+                {t("detail.unit")}
+              </dt>
+              <dd className="text-lg font-semibold">
+                {record.uomCode ?? "—"}
+                {record.uomCode ? (
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    {describeUom(record.uomCode, t)}
+                  </span>
+                ) : null}
+              </dd>
+            </div>
+            <div className="rounded-lg border px-3 py-2">
+              <dt className="text-xs uppercase tracking-wide text-muted-foreground">
+                {t("column.validFrom")}
+              </dt>
+              <dd className="text-lg font-semibold">
+                {formatDate(record.validFrom, locale)}
+              </dd>
+            </div>
+          </dl>
+
+          {record.importMeasure || record.exportMeasure || record.fileUrl ? (
+            <dl className="space-y-3 text-sm">
+              {record.importMeasure ? (
+                <div>
+                  <dt className="text-xs uppercase tracking-wide text-muted-foreground">
+                    {t("detail.importMeasure")}
+                  </dt>
+                  <dd>{record.importMeasure}</dd>
+                </div>
+              ) : null}
+              {record.exportMeasure ? (
+                <div>
+                  <dt className="text-xs uppercase tracking-wide text-muted-foreground">
+                    {t("detail.exportMeasure")}
+                  </dt>
+                  <dd>{record.exportMeasure}</dd>
+                </div>
+              ) : null}
+              {record.fileUrl ? (
+                <div>
+                  <dt className="text-xs uppercase tracking-wide text-muted-foreground">
+                    {t("detail.document")}
+                  </dt>
+                  <dd>
+                    <a
+                      href={record.fileUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 break-all underline-offset-4 hover:underline"
+                    >
+                      <FileText aria-hidden className="h-3.5 w-3.5" />
+                      {record.fileUrl}
+                    </a>
+                  </dd>
+                </div>
+              ) : null}
+            </dl>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">
+              {t("detail.children", { count: children.length })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RecordList records={children} emptyText={t("detail.noChildren")} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">
+              {t("detail.siblings", { count: siblings.length })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RecordList
+              records={siblings}
+              emptyText={t("detail.noSiblings")}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">{t("history.title")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <RateTimeline code={record.code} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
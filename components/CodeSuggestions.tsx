@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { ExternalLink, GitCompareArrows, LocateFixed, Sparkles } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { MAX_COMPARED_CODES } from "@/lib/compare";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import type { CustomsRecord } from "@/lib/database";
+import { formatPercent } from "@/lib/formatters";
+import { getOriginOption, type OriginId } from "@/lib/origin";
+import type { CodeSuggestion } from "@/lib/suggest";
+import { cn } from "@/lib/utils";
+
+type CodeSuggestionsProps = {
+  ready: boolean;
+  query: string;
+  codePrefix: string;
+  fuzzy: boolean;
+  origin: OriginId;
+  comparedCodes: string[];
+  onShowInTable: (suggestion: CodeSuggestion) => void;
+  onOpenDetail: (record: CustomsRecord) => void;
+  onToggleCompare: (code: string) => void;
+};
+
+type SuggestionResult = {
+  key: string;
+  suggestions: CodeSuggestion[];
+};
+
+/** Tariff lines ranked for the description query, with the path that matched. */
+export function CodeSuggestions({
+  ready,
+  query,
+  codePrefix,
+  fuzzy,
+  origin,
+  comparedCodes,
+  onShowInTable,
+  onOpenDetail,
+  onToggleCompare,
+}: CodeSuggestionsProps) {
+  const { locale, t } = useI18n();
+  const [result, setResult] = useState<SuggestionResult | null>(null);
+  const key = `${codePrefix}|${fuzzy}|${query}`;
+
+  useEffect(() => {
+    if (!ready || !query) return;
+    let cancelled = false;
+    CustomsWorkerClient.suggest(query, codePrefix, fuzzy)
+      .then((suggestions) => {
+        if (!cancelled) setResult({ key, suggestions });
+      })
+      .catch((error) => {
+        console.error("Code suggestions failed:", { query, error });
+        if (!cancelled) setResult({ key, suggestions: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ready, query, codePrefix, fuzzy, key]);
+
+  if (!query) return null;
+
+  const loading = result?.key !== key;
+  const suggestions = result?.suggestions ?? [];
+  const { rateField } = getOriginOption(origin);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold sm:text-xl">
+          <Sparkles aria-hidden className="size-5 text-amber-500" />
+          {t("suggest.title")}
+        </CardTitle>
+        <CardDescription className="text-sm text-muted-foreground">
+          {t("suggest.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent aria-busy={loading}>
+        {loading && suggestions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{t("common.loading")}</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{t("suggest.none")}</p>
+        ) : (
+          <ol className={cn("space-y-3", loading && "opacity-60")}>
+            {suggestions.map((suggestion, index) => {
+              const { record, path } = suggestion;
+              const percent = Math.round(suggestion.confidence * 100);
+              const compared = comparedCodes.includes(record.code);
+              return (
+                <li key={record.code} className="rounded-md border p-3">
+                  <div className="flex flex-wrap items-start gap-3">
+                    <span className="w-6 shrink-0 text-right text-sm font-semibold text-muted-foreground">
+                      {index + 1}.
+                    </span>
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="text-sm">
+                        <span className="font-mono font-medium">{record.code}</span>{" "}
+                        {record.description}
+                      </p>
+                      <ol
+                        aria-label={t("suggest.path")}
+                        className="flex flex-wrap items-center gap-x-1 text-xs text-muted-foreground"
+                      >
+                        {path.slice(0, -1).map((entry) => (
+                          <li key={entry.code} className="after:ml-1 after:content-['›']">
+                            <span
+                              className={cn(
+                                entry.matched && "rounded bg-amber-100 px-0.5 text-amber-900",
+                              )}
+                              title={entry.description}
+                            >
+                              <span className="font-mono">{entry.code}</span>{" "}
+                              {entry.description}
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                      <p className="text-xs text-muted-foreground">
+                        {t("suggest.rates", {
+                          duty: formatPercent(record[rateField], locale),
+                          vat: formatPercent(record.tvsh, locale),
+                        })}
+                      </p>
+                    </div>
+                    <div className="w-32 shrink-0 space-y-1">
+                      <div
+                        role="meter"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={percent}
+                        aria-label={t("suggest.confidence", { percent })}
+                        className="h-1.5 rounded-full bg-muted"
+                      >
+                        <div
+                          className="h-full rounded-full bg-primary"
+                          style={{ width: `${percent}%` }}
+                        />
+                      </div>
+                      <p className="text-right text-xs text-muted-foreground">
+                        {t("suggest.confidence", { percent })}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-2 pl-9">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onShowInTable(suggestion)}
+                    >
+                      <LocateFixed aria-hidden />
+                      {t("suggest.showInTable")}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onOpenDetail(record)}
+                    >
+                      <ExternalLink aria-hidden />
+                      {t("suggest.details")}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={compared ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => onToggleCompare(record.code)}
+                      aria-pressed={compared}
+                      disabled={!compared && comparedCodes.length >= MAX_COMPARED_CODES}
+                    >
+                      <GitCompareArrows aria-hidden />
+                      {t("suggest.compare")}
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import type { ColumnDef } from "@tanstack/react-table";
+import { ArrowDown, ArrowUp, Columns3, RotateCcw } from "lucide-react";
+
+import { getColumnMeta } from "@/components/customs-table/columns";
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_TABLE_PREFERENCES,
+  moveColumn,
+  parseTablePreferences,
+  resolveColumnOrder,
+  type TablePreferences,
+} from "@/lib/table-preferences";
+
+const STORAGE_KEY = "customs-explorer:table";
+
+const listeners = new Set<() => void>();
+let cached: { raw: string | null; value: TablePreferences } | null = null;
+
+// useSyncExternalStore needs a stable snapshot, so reparse only on change
+function readStoredPreferences(): TablePreferences {
+  let raw: string | null = null;
+  try {
+    raw = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return DEFAULT_TABLE_PREFERENCES;
+  }
+  if (!cached || cached.raw !== raw) {
+    cached = { raw, value: parseTablePreferences(raw) };
+  }
+  return cached.value;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+function setStoredPreferences(preferences: TablePreferences) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error("Failed to persist table preferences:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export type TablePreferencesController = {
+  preferences: TablePreferences;
+  setPreferences: (preferences: TablePreferences) => void;
+  reset: () => void;
+};
+
+/** Column order, visibility, widths and sorting, persisted in localStorage. */
+export function useTablePreferences(): TablePreferencesController {
+  const preferences = useSyncExternalStore(
+    subscribe,
+    readStoredPreferences,
+    () => DEFAULT_TABLE_PREFERENCES,
+  );
+  return {
+    preferences,
+    setPreferences: setStoredPreferences,
+    reset: () => setStoredPreferences(DEFAULT_TABLE_PREFERENCES),
+  };
+}
+
+type ColumnSettingsProps<TData> = {
+  columns: ColumnDef<TData, unknown>[];
+  controller: TablePreferencesController;
+};
+
+export function ColumnSettings<TData>({
+  columns,
+  controller,
+}: ColumnSettingsProps<TData>) {
+  const { t } = useI18n();
+  const { preferences, setPreferences, reset } = controller;
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  const byId = new Map(columns.map((column) => [column.id ?? "", column]));
+  const fixedIds = columns
+    .filter((column) => column.enableHiding === false)
+    .map((column) => column.id ?? "");
+  const order = resolveColumnOrder(preferences.columnOrder, [...byId.keys()]);
+
+  const handleMove = (id: string, offset: number) => {
+    setPreferences({
+      ...preferences,
+      columnOrder: moveColumn(order, id, offset, fixedIds),
+    });
+  };
+
+  const handleToggle = (id: string, visible: boolean) => {
+    setPreferences({
+      ...preferences,
+      columnVisibility: { ...preferences.columnVisibility, [id]: visible },
+    });
+  };
+
+  const panelId = "column-settings-panel";
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen((current) => !current)}
+        aria-expanded={open}
+        aria-controls={panelId}
+      >
+        <Columns3 aria-hidden />
+        {t("columns.title")}
+      </Button>
+      {open ? (
+        <div
+          id={panelId}
+          className="absolute right-0 z-20 mt-2 w-72 space-y-3 rounded-lg border bg-popover p-3 text-popover-foreground shadow-md"
+        >
+          <ul className="space-y-1">
+            {order.map((id, index) => {
+              const column = byId.get(id);
+              if (!column) return null;
+              const label = getColumnMeta(column).label ?? id;
+              const fixed = fixedIds.includes(id);
+              const previousFixed = index > 0 && fixedIds.includes(order[index - 1]);
+              return (
+                <li key={id} className="flex items-center gap-2 text-sm">
+                  <label className="flex min-w-0 flex-1 items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={preferences.columnVisibility[id] !== false}
+                      disabled={fixed}
+                      onChange={(event) =>
+                        handleToggle(id, event.currentTarget.checked)}
+                      className="h-3.5 w-3.5 accent-primary"
+                    />
+                    <span className="truncate">{label}</span>
+                  </label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleMove(id, -1)}
+                    disabled={fixed || index === 0 || previousFixed}
+                    aria-label={t("columns.moveLeft", { column: label })}
+                  >
+                    <ArrowUp aria-hidden />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleMove(id, 1)}
+                    disabled={fixed || index === order.length - 1}
+                    aria-label={t("columns.moveRight", { column: label })}
+                  >
+                    <ArrowDown aria-hidden />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-xs text-muted-foreground">{t("columns.hint")}</p>
+          <Button type="button" variant="outline" size="sm" onClick={reset}>
+            <RotateCcw aria-hidden />
+            {t("columns.reset")}
+          </Button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from "react";
+import { GitCompareArrows, X } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  MAX_COMPARED_CODES,
+  sharedAncestorCodes,
+  valuesDiffer,
+  type ComparedCode,
+} from "@/lib/compare";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import { RATE_FIELDS } from "@/lib/dataset-diff";
+import { calculateLandedCost, parseAmount } from "@/lib/duty";
+import { formatMoney, formatPercent } from "@/lib/formatters";
+import { getOriginOption, type OriginId } from "@/lib/origin";
+import { cn } from "@/lib/utils";
+
+type CompareTrayProps = {
+  codes: string[];
+  origin: OriginId;
+  asOf: string;
+  onRemove: (code: string) => void;
+  onClear: () => void;
+};
+
+const DEFAULT_SAMPLE_VALUE = "1000";
+const CHARGE_STEPS = ["duty", "excise", "vat", "total"] as const;
+
+const DIFFERENT_CELL_CLASS = "bg-amber-50 dark:bg-amber-950/40";
+
+type CompareRowProps = {
+  label: ReactNode;
+  values: unknown[];
+  render: (index: number) => ReactNode;
+  /** Off for attributes that always differ, such as the description. */
+  highlight?: boolean;
+};
+
+/** One attribute across the compared codes, highlighted when they differ. */
+function CompareRow({ label, values, render, highlight = true }: CompareRowProps) {
+  const differs = highlight && valuesDiffer(values);
+  return (
+    <tr className="border-b border-border/60 align-top">
+      <th scope="row" className="py-2 pr-4 text-left text-xs font-medium text-muted-foreground">
+        {label}
+      </th>
+      {values.map((_, index) => (
+        <td
+          key={index}
+          className={cn("px-2 py-2 tabular-nums", differs && DIFFERENT_CELL_CLASS)}
+        >
+          {render(index)}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+/** Codes picked for comparison and, once open, their side-by-side view. */
+export function CompareTray({
+  codes,
+  origin,
+  asOf,
+  onRemove,
+  onClear,
+}: CompareTrayProps) {
+  const { locale, t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<ComparedCode[]>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [sampleValue, setSampleValue] = useState(DEFAULT_SAMPLE_VALUE);
+  const codesKey = codes.join(",");
+
+  useEffect(() => {
+    if (!open || !codesKey) return;
+    let cancelled = false;
+    CustomsWorkerClient.getComparedCodes(codesKey.split(","), asOf)
+      .then((next) => {
+        if (cancelled) return;
+        setEntries(next);
+        setLoadFailed(false);
+      })
+      .catch((error) => {
+        console.error("Failed to load compared codes:", error);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, codesKey, asOf]);
+
+  if (codes.length === 0) return null;
+
+  const { rateField } = getOriginOption(origin);
+  const records = entries.map((entry) => entry.record);
+  const shared = sharedAncestorCodes(entries);
+  const breakdowns = records.map((record) =>
+    calculateLandedCost(record, {
+      value: parseAmount(sampleValue),
+      rateField,
+    }),
+  );
+  const sampleInputId = "compare-sample-value";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold sm:text-xl">
+          {t("compare.title")}
+        </CardTitle>
+        <CardDescription className="text-sm text-muted-foreground">
+          {t("compare.description", { max: MAX_COMPARED_CODES })}
+        </CardDescription>
+        <CardAction className="flex gap-2">
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => setOpen(!open)}
+            disabled={codes.length < 2}
+            aria-expanded={open}
+          >
+            <GitCompareArrows aria-hidden />
+            {open ? t("compare.hide") : t("compare.open", { count: codes.length })}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={onClear}>
+            {t("compare.clear")}
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="flex flex-wrap gap-2">
+          {codes.map((code) => (
+            <li
+              key={code}
+              className="inline-flex items-center gap-1 rounded-full border px-3 py-1 font-mono text-xs"
+            >
+              {code}
+              <button
+                type="button"
+                onClick={() => onRemove(code)}
+                aria-label={t("compare.remove", { code })}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X aria-hidden className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        {codes.length < 2 ? (
+          <p className="text-xs text-muted-foreground">{t("compare.pickMore")}</p>
+        ) : null}
+
+        {open && loadFailed ? (
+          <p className="text-xs text-destructive">{t("common.loadFailed")}</p>
+        ) : null}
+        {open && codes.length >= 2 && !loadFailed ? (
+          <div className="space-y-4">
+            <div className="max-w-xs space-y-2">
+              <Label htmlFor={sampleInputId} className="text-sm text-muted-foreground">
+                {t("compare.sampleValue")}
+              </Label>
+              <Input
+                id={sampleInputId}
+                type="text"
+                value={sampleValue}
+                onChange={(event) => setSampleValue(event.currentTarget.value)}
+                autoComplete="off"
+                inputMode="decimal"
+              />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[40rem] text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="w-40 py-2" />
+                    {records.map((record) => (
+                      <th key={record.code} scope="col" className="px-2 py-2 font-mono">
+                        {record.code}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <CompareRow
+                    label={t("column.description")}
+                    values={records.map((record) => record.description)}
+                    render={(index) => records[index]?.description}
+                    highlight={false}
+                  />
+                  <tr className="border-b border-border/60 align-top">
+                    <th scope="row" className="py-2 pr-4 text-left text-xs font-medium text-muted-foreground">
+                      {t("compare.path")}
+                    </th>
+                    {entries.map((entry) => (
+                      <td key={entry.record.code} className="px-2 py-2">
+                        <ol className="space-y-1 text-xs">
+                          {entry.ancestors.map((ancestor) => (
+                            <li
+                              key={ancestor.code}
+                              className={cn(
+                                "rounded px-1",
+                                shared.has(ancestor.code)
+                                  ? "text-muted-foreground"
+                                  : DIFFERENT_CELL_CLASS,
+                              )}
+                            >
+                              <span className="font-mono">{ancestor.code}</span>{" "}
+                              {ancestor.description}
+                            </li>
+                          ))}
+                        </ol>
+                      </td>
+                    ))}
+                  </tr>
+                  {RATE_FIELDS.map((field) => (
+                    <CompareRow
+                      key={field}
+                      label={
+                        <>
+                          {t(`rate.${field}`)}
+                          {field === rateField ? (
+                            <span className="ml-1 text-emerald-700">
+                              ({t("compare.applies")})
+                            </span>
+                          ) : null}
+                        </>
+                      }
+                      values={records.map((record) => record[field])}
+                      render={(index) => formatPercent(records[index]?.[field], locale)}
+                    />
+                  ))}
+                  <CompareRow
+                    label={t("column.uom")}
+                    values={records.map((record) => record.uomCode ?? null)}
+                    render={(index) => records[index]?.uomCode ?? "—"}
+                  />
+                  <CompareRow
+                    label={t("column.measures")}
+                    values={records.map(
+                      (record) =>
+                        `${record.importMeasure ?? ""}|${record.exportMeasure ?? ""}`,
+                    )}
+                    render={(index) => {
+                      const record = records[index];
+                      const measures = [
+                        record?.importMeasure
+                          ? t("column.importMeasure", { measure: record.importMeasure })
+                          : null,
+                        record?.exportMeasure
+                          ? t("column.exportMeasure", { measure: record.exportMeasure })
+                          : null,
+                      ].filter(Boolean);
+                      return measures.length > 0 ? measures.join("; ") : "—";
+                    }}
+                  />
+                  {CHARGE_STEPS.map((step) => (
+                    <CompareRow
+                      key={step}
+                      label={`${t(`duty.step.${step}`)} (€)`}
+                      values={breakdowns.map((breakdown) => breakdown[step])}
+                      render={(index) => {
+                        const amount = breakdowns[index]?.[step] ?? 0;
+                        return step === "total" ? (
+                          <span className="font-semibold">{formatMoney(amount, locale)}</span>
+                        ) : (
+                          formatMoney(amount, locale)
+                        );
+                      }}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">{t("compare.hint")}</p>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
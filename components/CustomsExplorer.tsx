@@ -1,6 +1,18 @@
 'use client';
 
-import { useEffect, useMemo, useRef, useState, useTransition } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useTransition,
+} from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import type { ExpandedState } from "@tanstack/react-table";
+import { Check, Download, Link2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
 
 import {
   Card,
@@ -11,13 +23,64 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { ChapterNavigator } from "@/components/ChapterNavigator";
+import { CodeSuggestions } from "@/components/CodeSuggestions";
+import { CompareTray } from "@/components/CompareTray";
+import {
+  ColumnSettings,
+  useTablePreferences,
+} from "@/components/ColumnSettings";
+import { DatasetChangesPanel } from "@/components/DatasetChangesPanel";
+import { DutyCalculator } from "@/components/DutyCalculator";
+import { ExpansionControls } from "@/components/ExpansionControls";
+import {
+  FavoriteNoteEditor,
+  FavoritesActions,
+  useFavorites,
+} from "@/components/Favorites";
+import { useI18n } from "@/components/LocaleSwitcher";
+import { RateFilters } from "@/components/RateFilters";
+import { RateTimelineCard } from "@/components/RateTimeline";
+import {
+  ShipmentWorkspace,
+  useShipments,
+} from "@/components/ShipmentWorkspace";
 import { VirtualizedTreeTable } from "@/components/VirtualizedTreeTable";
+import { WatchlistAlertsPanel } from "@/components/WatchlistAlertsPanel";
 import { createCustomsColumns } from "@/components/customs-table/columns";
-import {
-  CustomsDataService,
-  type CustomsTreeNode,
-  type InitializationProgress,
+import { toggleComparedCode } from "@/lib/compare";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import type {
+  CustomsRecord,
+  CustomsTreeNode,
+  InitializationProgress,
 } from "@/lib/database";
+import {
+  buildExportFileName,
+  downloadCsv,
+  downloadXlsx,
+  type ExportOptions,
+} from "@/lib/export";
+import { ORIGIN_OPTIONS, isOriginId, type OriginId } from "@/lib/origin";
+import {
+  hasActiveFilters,
+  matchesFilters,
+  type RecordFilters,
+} from "@/lib/record-filters";
+import type { CodeSuggestion } from "@/lib/suggest";
+import { resolveColumnOrder } from "@/lib/table-preferences";
+import {
+  applyExpandedCodes,
+  resolveExpandedCodes,
+  revealCodes,
+  type TreeExpansion,
+} from "@/lib/tree-expansion";
+import {
+  parseExplorerUrlState,
+  replaceUrlQuery,
+  serializeExplorerUrlState,
+} from "@/lib/url-state";
 
 /** Simple debounce without external deps */
 function useDebouncedValue<T>(value: T, delayMs: number): T {
@@ -30,15 +93,79 @@ function useDebouncedValue<T>(value: T, delayMs: number): T {
 }
 
 export function CustomsExplorer() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [initialUrlState] = useState(() => parseExplorerUrlState(searchParams));
   const [treeData, setTreeData] = useState<CustomsTreeNode[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
-  const [idQuery, setIdQuery] = useState<string>("");
-  const [descQuery, setDescQuery] = useState<string>("");
+  const [idQuery, setIdQuery] = useState<string>(initialUrlState.code);
+  const [descQuery, setDescQuery] = useState<string>(initialUrlState.q);
+  const [origin, setOrigin] = useState<OriginId>(initialUrlState.origin);
+  const [asOf, setAsOf] = useState<string>(initialUrlState.asOf);
+  const [filters, setFilters] = useState<RecordFilters>(initialUrlState.filters);
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(
+    initialUrlState.favoritesOnly,
+  );
+  const [fuzzy, setFuzzy] = useState<boolean>(true);
+  const [suggestMode, setSuggestMode] = useState<boolean>(
+    initialUrlState.suggest,
+  );
+  const [focusedCode, setFocusedCode] = useState<string | null>(
+    initialUrlState.focus,
+  );
+  const [expansion, setExpansion] = useState<TreeExpansion>(
+    initialUrlState.expansion,
+  );
+  const [comparedCodes, setComparedCodes] = useState<string[]>(
+    initialUrlState.compare,
+  );
+  const [linkCopied, setLinkCopied] = useState(false);
   const [indexingState, setIndexingState] =
     useState<InitializationProgress | null>(null);
   const [initialized, setInitialized] = useState(false);
+  const [calculatorRecord, setCalculatorRecord] =
+    useState<CustomsRecord | null>(null);
+  const [historyRecord, setHistoryRecord] = useState<CustomsRecord | null>(
+    null,
+  );
+  const [noteRecord, setNoteRecord] = useState<CustomsRecord | null>(null);
   const [isPending, startTransition] = useTransition();
+  const shipments = useShipments(origin);
+  const tablePreferences = useTablePreferences();
+  const favoritesController = useFavorites();
+  const {
+    favorites,
+    toggle: toggleFavorite,
+    setNote: setFavoriteNote,
+  } = favoritesController;
+  // The favorites view re-runs its search whenever the starred set changes
+  const favoritesDependency = favoritesOnly ? favorites : null;
+  const { addCode: addCodeToShipment } = shipments;
   const mountedRef = useRef(true);
+  const descInputRef = useRef<HTMLInputElement | null>(null);
+
+  // "/" jumps to the description search unless the visitor is typing
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "/" || event.ctrlKey || event.metaKey || event.altKey) {
+        return;
+      }
+      const target = event.target as HTMLElement | null;
+      if (
+        target?.isContentEditable ||
+        target?.closest("input, textarea, select")
+      ) {
+        return;
+      }
+      event.preventDefault();
+      descInputRef.current?.focus();
+      descInputRef.current?.select();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
 
   const debouncedId = useDebouncedValue(idQuery.trim(), 250);
   const normalizedDescQuery = descQuery.trim();
@@ -47,6 +174,99 @@ export function CustomsExplorer() {
     250,
   );
   const codePrefix = debouncedId;
+  const debouncedUrlDesc = useDebouncedValue(normalizedDescQuery, 250);
+  const debouncedFilters = useDebouncedValue(filters, 250);
+
+  // Mirror the shareable state into the query string
+  useEffect(() => {
+    replaceUrlQuery(
+      serializeExplorerUrlState({
+        code: debouncedId,
+        q: debouncedUrlDesc,
+        origin,
+        asOf,
+        filters: debouncedFilters,
+        favoritesOnly,
+        suggest: suggestMode,
+        focus: focusedCode,
+        expansion,
+        compare: comparedCodes,
+      }),
+    );
+  }, [
+    debouncedId,
+    debouncedUrlDesc,
+    origin,
+    asOf,
+    debouncedFilters,
+    favoritesOnly,
+    suggestMode,
+    focusedCode,
+    expansion,
+    comparedCodes,
+  ]);
+
+  useEffect(() => {
+    if (!linkCopied) return;
+    const t = window.setTimeout(() => setLinkCopied(false), 2_000);
+    return () => window.clearTimeout(t);
+  }, [linkCopied]);
+
+  const handleOpenDetail = (record: CustomsRecord) => {
+    // Remember the row in this history entry so "back" lands on it again
+    replaceUrlQuery(
+      serializeExplorerUrlState({
+        code: idQuery.trim(),
+        q: normalizedDescQuery,
+        origin,
+        asOf,
+        filters,
+        favoritesOnly,
+        suggest: suggestMode,
+        focus: record.code,
+        expansion,
+        compare: comparedCodes,
+      }),
+    );
+    router.push(`/code?code=${encodeURIComponent(record.code)}`);
+  };
+
+  const handleShowSuggestion = ({ path, record }: CodeSuggestion) => {
+    // Open the path down to the line so the table can scroll to it
+    setExpansion((current) =>
+      revealCodes(current, path.slice(0, -1).map((entry) => entry.code)),
+    );
+    setFocusedCode(record.code);
+  };
+
+  const handleExport = async (format: "csv" | "xlsx") => {
+    const { columnOrder, columnVisibility } = tablePreferences.preferences;
+    const options: ExportOptions = {
+      // Same columns, in the same order, as the table on screen
+      columnIds: resolveColumnOrder(
+        columnOrder,
+        columns.map((column) => column.id ?? "").filter(Boolean),
+      ).filter((id) => columnVisibility[id] !== false),
+      codePrefix,
+      fileName: buildExportFileName(codePrefix, debouncedDesc),
+      i18n,
+    };
+    try {
+      if (format === "csv") downloadCsv(treeData, options);
+      else await downloadXlsx(treeData, options);
+    } catch (error) {
+      console.error("Export failed:", error);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+    }
+  };
 
   useEffect(() => {
     mountedRef.current = true;
@@ -60,7 +280,7 @@ export function CustomsExplorer() {
     setLoading(true);
     (async () => {
       try {
-        await CustomsDataService.initializeData({
+        await CustomsWorkerClient.initializeData({
           force: false,
           onProgress: (progress) => {
             if (progress.phase === "done" || progress.phase === "cached") {
@@ -71,10 +291,10 @@ export function CustomsExplorer() {
           },
         });
 
-        const all = await CustomsDataService.getAllData();
+        const all = await CustomsWorkerClient.search("", "");
         if (!mountedRef.current) return;
         startTransition(() => {
-          setTreeData(CustomsDataService.buildTreeFromList(all));
+          if (all) setTreeData(all);
           setInitialized(true);
         });
       } catch (error) {
@@ -85,7 +305,7 @@ export function CustomsExplorer() {
             phase: "error",
             loaded: 0,
             total: 0,
-            message: "Indeksimi dështoi. Kontrolloni konsolën për detaje.",
+            message: "progress.failed",
           }
         );
       } finally {
@@ -106,14 +326,17 @@ export function CustomsExplorer() {
         const idPref = debouncedId;
         const desc = debouncedDesc;
 
-        const nextList =
-          !idPref && !desc
-            ? await CustomsDataService.getAllData()
-            : await CustomsDataService.searchByFields(idPref, desc);
+        const nextTree = await CustomsWorkerClient.search(idPref, desc, {
+          asOf: asOf || null,
+          fuzzy,
+          filters: hasActiveFilters(debouncedFilters) ? debouncedFilters : null,
+          favoritesOnly,
+        });
 
-        if (cancelled || !mountedRef.current) return;
+        // `null` means a newer query already replaced this one
+        if (cancelled || !mountedRef.current || !nextTree) return;
         startTransition(() => {
-          setTreeData(CustomsDataService.buildTreeFromList(nextList));
+          setTreeData(nextTree);
         });
       } catch (error) {
         console.error("Search error:", error);
@@ -125,20 +348,85 @@ export function CustomsExplorer() {
     return () => {
       cancelled = true;
     };
-  }, [debouncedId, debouncedDesc, initialized, startTransition]);
+  }, [
+    debouncedId,
+    debouncedDesc,
+    asOf,
+    fuzzy,
+    debouncedFilters,
+    favoritesOnly,
+    favoritesDependency,
+    initialized,
+    startTransition,
+  ]);
 
   const columns = useMemo(
     () =>
       createCustomsColumns({
+        i18n,
         codePrefix,
+        origin,
+        onCalculate: setCalculatorRecord,
+        onAddToShipment: (record) =>
+          addCodeToShipment(record.code).catch((error) => {
+            console.error("Failed to add code to shipment:", error);
+          }),
+        onShowHistory: setHistoryRecord,
+        onFocusCode: setFocusedCode,
+        favorites,
+        onToggleFavorite: (record) =>
+          toggleFavorite(record.code).catch((error) => {
+            console.error("Failed to toggle favorite:", error);
+          }),
+        onEditNote: setNoteRecord,
+        comparedCodes,
+        onToggleCompare: (record) =>
+          setComparedCodes((codes) => toggleComparedCode(codes, record.code)),
       }),
-    [codePrefix],
+    [
+      i18n,
+      codePrefix,
+      origin,
+      addCodeToShipment,
+      favorites,
+      toggleFavorite,
+      comparedCodes,
+    ],
+  );
+
+  // A row matches when it meets every active criterion of the search
+  const isMatch = useCallback(
+    (node: CustomsTreeNode) => {
+      const criteria = [
+        codePrefix ? node.code.startsWith(codePrefix) : null,
+        debouncedDesc ? Boolean(node.highlightedDescription) : null,
+        hasActiveFilters(debouncedFilters)
+          ? matchesFilters(node, debouncedFilters)
+          : null,
+        favoritesOnly ? favorites.has(node.code) : null,
+      ].filter((criterion): criterion is boolean => criterion !== null);
+      return criteria.length > 0 && criteria.every(Boolean);
+    },
+    [codePrefix, debouncedDesc, debouncedFilters, favoritesOnly, favorites],
+  );
+
+  const expandedCodes = useMemo(
+    () => resolveExpandedCodes(treeData, expansion, isMatch),
+    [treeData, expansion, isMatch],
   );
 
+  const handleExpandedChange = (next: ExpandedState) => {
+    setExpansion((current) =>
+      applyExpandedCodes(treeData, current, isMatch, next),
+    );
+  };
+
   const topLevelNodes = treeData.length;
 
   const idPrefixInputId = "id-prefix-input";
   const descInputId = "description-input";
+  const originInputId = "origin-input";
+  const asOfInputId = "as-of-input";
 
   const progressPercent =
     indexingState && indexingState.total > 0
@@ -148,108 +436,295 @@ export function CustomsExplorer() {
       )
       : null;
 
-  const statusText = indexingState
-    ? indexingState.message
+  const exportDisabled = loading || isPending || treeData.length === 0;
+
+  const indexingMessage = indexingState
+    ? t(indexingState.message, {
+      loaded: indexingState.loaded,
+      total: indexingState.total,
+    })
+    : null;
+
+  const statusText = indexingMessage
+    ? indexingMessage
     : loading || isPending
-      ? "Duke u ngarkuar ..."
-      : `${topLevelNodes} kategori kryesore`;
+      ? t("common.loading")
+      : t("explorer.topLevelCount", { count: topLevelNodes });
 
   return (
     <section className="space-y-6">
+      <WatchlistAlertsPanel ready={initialized} />
+      <DatasetChangesPanel ready={initialized} />
+
       <Card>
         <CardHeader>
           <CardTitle className="text-lg font-semibold sm:text-xl">
-            Filtro të dhënat
+            {t("explorer.filtersTitle")}
           </CardTitle>
           <CardDescription className="text-sm text-muted-foreground">
-            Plotësoni njërin ose disa prej fushave për të kufizuar rezultatet.
+            {t("explorer.filtersDescription")}
           </CardDescription>
         </CardHeader>
         <CardContent className="grid gap-4 md:grid-cols-4">
           <div className="space-y-2">
             <Label htmlFor={idPrefixInputId} className="text-sm text-muted-foreground">
-              Prefiksi i Kodit
+              {t("explorer.codePrefix")}
             </Label>
             <Input
               id={idPrefixInputId}
               type="text"
               value={idQuery}
               onChange={(event) => setIdQuery(event.currentTarget.value)}
-              placeholder="p.sh. 7208 ose 01"
+              placeholder={t("explorer.codePrefixPlaceholder")}
               autoComplete="off"
               inputMode="numeric"
             />
           </div>
-          <div className="md:col-span-3 space-y-2">
-            <Label htmlFor={descInputId} className="text-sm text-muted-foreground">
-              Përshkrimi
-            </Label>
+          <div className="md:col-span-2 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor={descInputId} className="text-sm text-muted-foreground">
+                {t("explorer.description")}
+              </Label>
+              <span className="hidden text-xs text-muted-foreground sm:inline">
+                {t("explorer.searchShortcut")}{" "}
+                <kbd className="rounded border bg-muted px-1.5 font-mono">/</kbd>
+              </span>
+            </div>
             <Input
+              ref={descInputRef}
               id={descInputId}
+              aria-keyshortcuts="/"
               type="text"
               value={descQuery}
               onChange={(event) => setDescQuery(event.currentTarget.value)}
-              placeholder='p.sh. "tub çeliku"'
+              placeholder={t("explorer.descriptionPlaceholder")}
               autoComplete="off"
             />
             <p className="text-xs text-muted-foreground">
-              Shkruani të paktën 3 shkronja nga përshkrimi (p.sh. &quot;vajra&quot; ose &quot;tub&quot;) për të parë nën-kodet përkatëse.
+              {t("explorer.descriptionHint")}
+            </p>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={fuzzy}
+                onChange={(event) => setFuzzy(event.currentTarget.checked)}
+                className="h-3.5 w-3.5 accent-primary"
+              />
+              {t("explorer.fuzzy")}
+            </label>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={suggestMode}
+                onChange={(event) => setSuggestMode(event.currentTarget.checked)}
+                className="h-3.5 w-3.5 accent-primary"
+              />
+              {t("explorer.suggest")}
+            </label>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={originInputId} className="text-sm text-muted-foreground">
+              {t("common.origin")}
+            </Label>
+            <NativeSelect
+              id={originInputId}
+              value={origin}
+              onChange={(event) => {
+                const next = event.currentTarget.value;
+                if (isOriginId(next)) setOrigin(next);
+              }}
+            >
+              {ORIGIN_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {t(`origin.${option.id}`)}
+                </option>
+              ))}
+            </NativeSelect>
+            <p className="text-xs text-muted-foreground">
+              {t("explorer.originHint")}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={asOfInputId} className="text-sm text-muted-foreground">
+              {t("explorer.asOf")}
+            </Label>
+            <Input
+              id={asOfInputId}
+              type="date"
+              value={asOf}
+              onChange={(event) => setAsOf(event.currentTarget.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("explorer.asOfHint")}
             </p>
           </div>
+          <div className="md:col-span-4">
+            <RateFilters filters={filters} onChange={setFilters} />
+          </div>
         </CardContent>
       </Card>
 
-      <Card className="overflow-hidden gap-0 pb-0">
-        <CardHeader className="border-b pb-4">
-          <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
-            <div className="space-y-1">
-              <CardTitle className="text-lg font-semibold sm:text-xl">
-                Rezultatet
-              </CardTitle>
-              <CardDescription>
-                Klikoni ikonën për të zgjeruar hierarkinë e kodeve dhe shikoni detyrimet e llogaritura në kohë reale.
-              </CardDescription>
+      {calculatorRecord ? (
+        <DutyCalculator
+          key={calculatorRecord.code}
+          record={calculatorRecord}
+          origin={origin}
+          onOriginChange={setOrigin}
+          onClose={() => setCalculatorRecord(null)}
+        />
+      ) : null}
+
+      {historyRecord ? (
+        <RateTimelineCard
+          key={historyRecord.code}
+          record={historyRecord}
+          onClose={() => setHistoryRecord(null)}
+        />
+      ) : null}
+
+      {noteRecord ? (
+        <FavoriteNoteEditor
+          key={noteRecord.code}
+          record={noteRecord}
+          favorite={favorites.get(noteRecord.code) ?? null}
+          onSave={(note) => setFavoriteNote(noteRecord.code, note)}
+          onClose={() => setNoteRecord(null)}
+        />
+      ) : null}
+
+      <ShipmentWorkspace controller={shipments} />
+
+      <CompareTray
+        codes={comparedCodes}
+        origin={origin}
+        asOf={asOf}
+        onRemove={(code) =>
+          setComparedCodes((codes) => codes.filter((item) => item !== code))
+        }
+        onClear={() => setComparedCodes([])}
+      />
+
+      {suggestMode ? (
+        <CodeSuggestions
+          ready={initialized}
+          query={debouncedDesc}
+          codePrefix={codePrefix}
+          fuzzy={fuzzy}
+          origin={origin}
+          comparedCodes={comparedCodes}
+          onShowInTable={handleShowSuggestion}
+          onOpenDetail={handleOpenDetail}
+          onToggleCompare={(code) =>
+            setComparedCodes((codes) => toggleComparedCode(codes, code))
+          }
+        />
+      ) : null}
+
+      <div className="grid gap-6 lg:grid-cols-[18rem_minmax(0,1fr)]">
+        <ChapterNavigator
+          ready={initialized}
+          origin={origin}
+          codePrefix={idQuery.trim()}
+          onSelect={setIdQuery}
+        />
+        <Card className="overflow-hidden gap-0 pb-0">
+          <CardHeader className="border-b pb-4">
+            <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+              <div className="space-y-1">
+                <CardTitle className="text-lg font-semibold sm:text-xl">
+                  {t("explorer.resultsTitle")}
+                </CardTitle>
+                <CardDescription>
+                  {t("explorer.resultsDescription")}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <FavoritesActions
+                  controller={favoritesController}
+                  favoritesOnly={favoritesOnly}
+                  onFavoritesOnlyChange={setFavoritesOnly}
+                />
+                <ExpansionControls expansion={expansion} onChange={setExpansion} />
+                <ColumnSettings columns={columns} controller={tablePreferences} />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void handleExport("csv")}
+                  disabled={exportDisabled}
+                  title={t("explorer.exportCsv")}
+                >
+                  <Download aria-hidden />
+                  CSV
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void handleExport("xlsx")}
+                  disabled={exportDisabled}
+                  title={t("explorer.exportXlsx")}
+                >
+                  <Download aria-hidden />
+                  Excel
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCopyLink}
+                  title={t("explorer.copyLinkTitle")}
+                >
+                  {linkCopied ? <Check aria-hidden /> : <Link2 aria-hidden />}
+                  {linkCopied ? t("explorer.linkCopied") : t("explorer.copyLink")}
+                </Button>
+                <span
+                  className="inline-flex items-center gap-2 rounded-full border border-muted-foreground/20 px-3 py-1.5 text-xs font-medium text-muted-foreground"
+                  aria-live="polite"
+                  aria-atomic="true"
+                >
+                  {statusText}
+                </span>
+              </div>
             </div>
-            <span
-              className="inline-flex items-center gap-2 rounded-full border border-muted-foreground/20 px-3 py-1.5 text-xs font-medium text-muted-foreground"
-              aria-live="polite"
-              aria-atomic="true"
-            >
-              {statusText}
-            </span>
-          </div>
-        </CardHeader>
+          </CardHeader>
 
-        <CardContent className="p-0">
-          {indexingState ? (
-            <div className="space-y-2 border-b px-4 py-3 text-xs text-muted-foreground sm:text-sm">
-              <div className="flex items-center justify-between gap-4">
-                <span>{indexingState.message}</span>
+          <CardContent className="p-0">
+            {indexingState ? (
+              <div className="space-y-2 border-b px-4 py-3 text-xs text-muted-foreground sm:text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <span>{indexingMessage}</span>
+                  {progressPercent !== null ? (
+                    <span className="font-medium text-foreground">
+                      {progressPercent}%
+                    </span>
+                  ) : null}
+                </div>
                 {progressPercent !== null ? (
-                  <span className="font-medium text-foreground">
-                    {progressPercent}%
-                  </span>
+                  <div className="h-1.5 rounded-full bg-muted">
+                    <div
+                      className="h-full rounded-full bg-primary transition-all duration-200 ease-out"
+                      style={{ width: `${progressPercent}%` }}
+                    />
+                  </div>
                 ) : null}
               </div>
-              {progressPercent !== null ? (
-                <div className="h-1.5 rounded-full bg-muted">
-                  <div
-                    className="h-full rounded-full bg-primary transition-all duration-200 ease-out"
-                    style={{ width: `${progressPercent}%` }}
-                  />
-                </div>
-              ) : null}
-            </div>
-          ) : null}
-
-          <VirtualizedTreeTable
-            columns={columns}
-            data={treeData}
-            loading={loading || isPending}
-            autoExpandAll
-          />
-        </CardContent>
-      </Card>
+            ) : null}
+
+            <VirtualizedTreeTable
+              columns={columns}
+              data={treeData}
+              loading={loading || isPending}
+              expanded={expandedCodes}
+              onExpandedChange={handleExpandedChange}
+              focusedCode={focusedCode}
+              onRowClick={handleOpenDetail}
+              preferences={tablePreferences.preferences}
+              onPreferencesChange={tablePreferences.setPreferences}
+            />
+          </CardContent>
+        </Card>
+      </div>
     </section>
   );
 }
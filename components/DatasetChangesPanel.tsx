@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useState } from "react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import type {
+  DatasetChanges,
+  DatasetDiffEntry,
+  RateChange,
+} from "@/lib/dataset-diff";
+import { formatPercent } from "@/lib/formatters";
+
+type DatasetChangesPanelProps = {
+  ready: boolean;
+};
+
+const MAX_LISTED_ENTRIES = 200;
+
+function OverflowNote({ total }: { total: number }) {
+  const { t } = useI18n();
+  if (total <= MAX_LISTED_ENTRIES) return null;
+  return (
+    <li className="text-muted-foreground">
+      {t("changes.more", { count: total - MAX_LISTED_ENTRIES })}
+    </li>
+  );
+}
+
+function EntryList({ entries }: { entries: DatasetDiffEntry[] }) {
+  return (
+    <ul className="mt-2 max-h-64 space-y-1 overflow-y-auto text-xs">
+      {entries.slice(0, MAX_LISTED_ENTRIES).map((entry) => (
+        <li key={entry.code} className="flex gap-3">
+          <span className="w-24 shrink-0 font-mono">{entry.code}</span>
+          <span className="truncate" title={entry.description}>
+            {entry.description}
+          </span>
+        </li>
+      ))}
+      <OverflowNote total={entries.length} />
+    </ul>
+  );
+}
+
+/** Each changed rate as "field: before → after". */
+export function RateChanges({ changes }: { changes: RateChange[] }) {
+  const { locale, t } = useI18n();
+  return (
+    <span className="flex flex-wrap gap-x-3">
+      {changes.map((change) => (
+        <span key={change.field}>
+          {t(`rate.${change.field}`)}:{" "}
+          <span className="line-through text-muted-foreground">
+            {formatPercent(change.before, locale)}
+          </span>{" "}
+          →{" "}
+          <span className="font-medium">
+            {formatPercent(change.after, locale)}
+          </span>
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export function DatasetChangesPanel({ ready }: DatasetChangesPanelProps) {
+  const { t } = useI18n();
+  const [changes, setChanges] = useState<DatasetChanges | null>(null);
+
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+    CustomsWorkerClient.getDatasetChanges()
+      .then((next) => {
+        if (!cancelled) setChanges(next);
+      })
+      .catch((error) => {
+        console.error("Failed to load dataset changes:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ready]);
+
+  if (!changes || changes.acknowledged) return null;
+
+  const { added, removed, changed } = changes;
+
+  const handleAcknowledge = async () => {
+    try {
+      await CustomsWorkerClient.acknowledgeDatasetChanges();
+    } catch (error) {
+      // Still hide it for now; it comes back on the next visit
+      console.error("Failed to acknowledge dataset changes:", error);
+    }
+    setChanges({ ...changes, acknowledged: true });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold sm:text-xl">
+          {t("changes.title")}
+        </CardTitle>
+        <CardDescription className="text-sm text-muted-foreground">
+          {t("changes.replacedWith")}{" "}
+          <span className="font-mono">{changes.toVersion}</span>.{" "}
+          {t("changes.counts", {
+            added: added.length,
+            removed: removed.length,
+            changed: changed.length,
+          })}
+        </CardDescription>
+        <CardAction>
+          <Button type="button" variant="outline" size="sm" onClick={handleAcknowledge}>
+            {t("changes.acknowledge")}
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {changed.length > 0 ? (
+          <details>
+            <summary className="cursor-pointer font-medium">
+              {t("changes.changedRates", { count: changed.length })}
+            </summary>
+            <ul className="mt-2 max-h-64 space-y-1 overflow-y-auto text-xs">
+              {changed.slice(0, MAX_LISTED_ENTRIES).map((entry) => (
+                <li key={entry.code} className="flex gap-3">
+                  <span className="w-24 shrink-0 font-mono">{entry.code}</span>
+                  <RateChanges changes={entry.changes} />
+                </li>
+              ))}
+              <OverflowNote total={changed.length} />
+            </ul>
+          </details>
+        ) : null}
+        {added.length > 0 ? (
+          <details>
+            <summary className="cursor-pointer font-medium">
+              {t("changes.added", { count: added.length })}
+            </summary>
+            <EntryList entries={added} />
+          </details>
+        ) : null}
+        {removed.length > 0 ? (
+          <details>
+            <summary className="cursor-pointer font-medium">
+              {t("changes.removed", { count: removed.length })}
+            </summary>
+            <EntryList entries={removed} />
+          </details>
+        ) : null}
+        {changed.length + added.length + removed.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            {t("changes.none")}
+          </p>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
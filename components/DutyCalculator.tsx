@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from "react";
+import { X } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import type { CustomsRecord } from "@/lib/database";
+import { calculateLandedCost, parseAmount } from "@/lib/duty";
+import { formatMoney, formatPercent } from "@/lib/formatters";
+import {
+  ORIGIN_OPTIONS,
+  getOriginOption,
+  isOriginId,
+  type OriginId,
+} from "@/lib/origin";
+
+type DutyCalculatorProps = {
+  record: CustomsRecord;
+  origin: OriginId;
+  onOriginChange: (origin: OriginId) => void;
+  onClose?: () => void;
+};
+
+export function DutyCalculator({
+  record,
+  origin,
+  onOriginChange,
+  onClose,
+}: DutyCalculatorProps) {
+  const { locale, t } = useI18n();
+  const [value, setValue] = useState<string>("");
+  const [quantity, setQuantity] = useState<string>("");
+
+  const breakdown = calculateLandedCost(record, {
+    value: parseAmount(value),
+    quantity: parseAmount(quantity),
+    rateField: getOriginOption(origin).rateField,
+  });
+
+  const valueInputId = "duty-calculator-value";
+  const quantityInputId = "duty-calculator-quantity";
+  const originInputId = "duty-calculator-origin";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold sm:text-xl">
+          {t("calculator.title")}
+        </CardTitle>
+        <CardDescription className="text-sm text-muted-foreground">
+          <span className="font-mono">{record.code}</span> — {record.description}
+        </CardDescription>
+        {onClose ? (
+          <CardAction>
+            <Button
+              onClick={onClose}
+              aria-label={t("calculator.close")}
+              variant="ghost"
+              size="icon-sm"
+              type="button"
+            >
+              <X aria-hidden />
+            </Button>
+          </CardAction>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor={valueInputId} className="text-sm text-muted-foreground">
+              {t("calculator.value")}
+            </Label>
+            <Input
+              id={valueInputId}
+              type="text"
+              value={value}
+              onChange={(event) => setValue(event.currentTarget.value)}
+              placeholder={t("calculator.valuePlaceholder")}
+              autoComplete="off"
+              inputMode="decimal"
+            />
+          </div>
+          {record.uomCode ? (
+            <div className="space-y-2">
+              <Label htmlFor={quantityInputId} className="text-sm text-muted-foreground">
+                {t("calculator.quantity", { unit: record.uomCode })}
+              </Label>
+              <Input
+                id={quantityInputId}
+                type="text"
+                value={quantity}
+                onChange={(event) => setQuantity(event.currentTarget.value)}
+                placeholder={t("calculator.quantityPlaceholder")}
+                autoComplete="off"
+                inputMode="decimal"
+              />
+            </div>
+          ) : null}
+          <div className="space-y-2">
+            <Label htmlFor={originInputId} className="text-sm text-muted-foreground">
+              {t("common.origin")}
+            </Label>
+            <NativeSelect
+              id={originInputId}
+              value={origin}
+              onChange={(event) => {
+                const next = event.currentTarget.value;
+                if (isOriginId(next)) onOriginChange(next);
+              }}
+            >
+              {ORIGIN_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {t(`origin.${option.id}`)} —{" "}
+                  {formatPercent(record[option.rateField], locale)}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-xs uppercase tracking-wide text-muted-foreground">
+              <th className="py-2 font-semibold">{t("calculator.step")}</th>
+              <th className="py-2 text-right font-semibold">{t("calculator.base")}</th>
+              <th className="py-2 text-right font-semibold">{t("calculator.rate")}</th>
+              <th className="py-2 text-right font-semibold">{t("calculator.amount")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.steps.map((step) => (
+              <tr
+                key={step.id}
+                className={
+                  step.id === "total"
+                    ? "border-t font-semibold"
+                    : "border-b border-border/60"
+                }
+              >
+                <td className="py-2">{t(`duty.step.${step.id}`)}</td>
+                <td className="py-2 text-right tabular-nums">
+                  {step.id === "cif" ? "—" : formatMoney(step.base, locale)}
+                </td>
+                <td className="py-2 text-right tabular-nums">
+                  {step.rate === null ? "—" : formatPercent(step.rate, locale)}
+                </td>
+                <td className="py-2 text-right tabular-nums">
+                  {formatMoney(step.amount, locale)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {breakdown.perUnit !== null ? (
+          <p className="text-xs text-muted-foreground">
+            {t("calculator.perUnit", { unit: record.uomCode ?? "" })}{" "}
+            <span className="font-medium text-foreground">
+              {formatMoney(breakdown.perUnit, locale)} €
+            </span>
+          </p>
+        ) : null}
+        <p className="text-xs text-muted-foreground">
+          {t("calculator.note")}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
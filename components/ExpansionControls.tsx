@@ -0,0 +1,90 @@
+'use client';
+
+import { ChevronsDownUp, ChevronsUpDown, ListTree } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  MAX_EXPANSION_DEPTH,
+  setExpansionMode,
+  type TreeExpansion,
+} from "@/lib/tree-expansion";
+
+type ExpansionControlsProps = {
+  expansion: TreeExpansion;
+  onChange: (expansion: TreeExpansion) => void;
+};
+
+const DEPTH_OPTIONS = Array.from(
+  { length: MAX_EXPANSION_DEPTH },
+  (_, index) => index + 1,
+);
+
+export function ExpansionControls({ expansion, onChange }: ExpansionControlsProps) {
+  const { t } = useI18n();
+  const { mode } = expansion;
+  const depthSelectId = "expansion-depth-select";
+
+  return (
+    <div
+      role="group"
+      aria-label={t("expansion.label")}
+      className="flex flex-wrap items-center gap-2"
+    >
+      <Button
+        type="button"
+        variant={mode === "matches" ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange(setExpansionMode("matches"))}
+        aria-pressed={mode === "matches"}
+        title={t("expansion.matchesTitle")}
+      >
+        <ListTree aria-hidden />
+        {t("expansion.matches")}
+      </Button>
+      <label htmlFor={depthSelectId} className="sr-only">
+        {t("expansion.depth")}
+      </label>
+      <NativeSelect
+        id={depthSelectId}
+        value={mode === "depth" ? String(expansion.depth) : ""}
+        onChange={(event) => {
+          const depth = Number(event.currentTarget.value);
+          if (depth > 0) onChange(setExpansionMode("depth", depth));
+        }}
+        className="h-8 w-auto"
+      >
+        <option value="" disabled>
+          {t("expansion.depth")}
+        </option>
+        {DEPTH_OPTIONS.map((depth) => (
+          <option key={depth} value={depth}>
+            {t("expansion.depthOption", { depth })}
+          </option>
+        ))}
+      </NativeSelect>
+      <Button
+        type="button"
+        variant={mode === "all" ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange(setExpansionMode("all"))}
+        aria-pressed={mode === "all"}
+        title={t("expansion.allTitle")}
+      >
+        <ChevronsUpDown aria-hidden />
+        {t("expansion.all")}
+      </Button>
+      <Button
+        type="button"
+        variant={mode === "none" ? "default" : "outline"}
+        size="sm"
+        onClick={() => onChange(setExpansionMode("none"))}
+        aria-pressed={mode === "none"}
+      >
+        <ChevronsDownUp aria-hidden />
+        {t("expansion.none")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type ChangeEvent } from "react";
+import { Download, Star, Upload, X } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import type { CustomsRecord, FavoriteRecord } from "@/lib/database";
+import { downloadBlob } from "@/lib/export";
+import {
+  FavoriteService,
+  createFavorite,
+  parseFavorites,
+  serializeFavorites,
+} from "@/lib/favorites";
+
+export type FavoritesController = {
+  favorites: ReadonlyMap<string, FavoriteRecord>;
+  toggle: (code: string) => Promise<void>;
+  /** Saving a note on an unstarred code stars it. */
+  setNote: (code: string, note: string) => Promise<void>;
+  exportJson: () => void;
+  importJson: (file: File) => Promise<number>;
+};
+
+function toMap(list: FavoriteRecord[]): ReadonlyMap<string, FavoriteRecord> {
+  return new Map(list.map((favorite) => [favorite.code, favorite]));
+}
+
+/** Starred codes and their notes, persisted to Dexie. */
+export function useFavorites(): FavoritesController {
+  const [favorites, setFavorites] = useState<ReadonlyMap<string, FavoriteRecord>>(
+    () => new Map(),
+  );
+  const favoritesRef = useRef(favorites);
+
+  const applyList = useCallback((list: FavoriteRecord[]) => {
+    const next = toMap(list);
+    favoritesRef.current = next;
+    setFavorites(next);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    FavoriteService.list().then((list) => {
+      if (!cancelled) applyList(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyList]);
+
+  const refresh = useCallback(async () => {
+    applyList(await FavoriteService.list());
+  }, [applyList]);
+
+  const toggle = useCallback(
+    async (code: string) => {
+      if (favoritesRef.current.has(code)) await FavoriteService.remove(code);
+      else await FavoriteService.save(createFavorite(code));
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const setNote = useCallback(
+    async (code: string, note: string) => {
+      const current = favoritesRef.current.get(code) ?? createFavorite(code);
+      await FavoriteService.save({ ...current, note: note.trim() });
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const exportJson = useCallback(() => {
+    const json = serializeFavorites([...favoritesRef.current.values()]);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      `favorites-${date}.json`,
+    );
+  }, []);
+
+  const importJson = useCallback(
+    async (file: File) => {
+      const count = await FavoriteService.importMany(
+        parseFavorites(await file.text()),
+      );
+      await refresh();
+      return count;
+    },
+    [refresh],
+  );
+
+  return { favorites, toggle, setNote, exportJson, importJson };
+}
+
+type FavoritesActionsProps = {
+  controller: FavoritesController;
+  favoritesOnly: boolean;
+  onFavoritesOnlyChange: (value: boolean) => void;
+};
+
+export function FavoritesActions({
+  controller,
+  favoritesOnly,
+  onFavoritesOnlyChange,
+}: FavoritesActionsProps) {
+  const { t } = useI18n();
+  const { favorites, exportJson, importJson } = controller;
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const count = await importJson(file);
+      setStatus(t("favorites.imported", { count }));
+    } catch (error) {
+      console.error("Failed to import favorites:", error);
+      setStatus(t("favorites.importFailed"));
+    } finally {
+      // Let the same file be picked again
+      input.value = "";
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button
+        type="button"
+        variant={favoritesOnly ? "default" : "outline"}
+        size="sm"
+        onClick={() => onFavoritesOnlyChange(!favoritesOnly)}
+        aria-pressed={favoritesOnly}
+      >
+        <Star aria-hidden className={favoritesOnly ? "fill-current" : undefined} />
+        {t("favorites.only", { count: favorites.size })}
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={exportJson}
+        disabled={favorites.size === 0}
+        title={t("favorites.exportTitle")}
+      >
+        <Download aria-hidden />
+        JSON
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        title={t("favorites.importTitle")}
+      >
+        <Upload aria-hidden />
+        {t("favorites.import")}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(event) => void handleImport(event)}
+      />
+      {status ? (
+        <span className="text-xs text-muted-foreground" aria-live="polite">
+          {status}
+        </span>
+      ) : null}
+    </div>
+  );
+}
+
+type FavoriteNoteEditorProps = {
+  record: CustomsRecord;
+  favorite: FavoriteRecord | null;
+  onSave: (note: string) => Promise<void>;
+  onClose: () => void;
+};
+
+export function FavoriteNoteEditor({
+  record,
+  favorite,
+  onSave,
+  onClose,
+}: FavoriteNoteEditorProps) {
+  const { t } = useI18n();
+  const [note, setNote] = useState(favorite?.note ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(note);
+      onClose();
+    } catch (error) {
+      console.error("Failed to save note:", error);
+      setSaving(false);
+    }
+  };
+
+  const noteInputId = "favorite-note-input";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold sm:text-xl">
+          {t("favorites.noteTitle")}
+        </CardTitle>
+        <CardDescription className="text-sm text-muted-foreground">
+          <span className="font-mono">{record.code}</span> — {record.description}
+        </CardDescription>
+        <CardAction>
+          <Button
+            onClick={onClose}
+            aria-label={t("favorites.closeNote")}
+            variant="ghost"
+            size="icon-sm"
+            type="button"
+          >
+            <X aria-hidden />
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Label htmlFor={noteInputId} className="text-sm text-muted-foreground">
+          {t("favorites.note")}
+        </Label>
+        <textarea
+          id={noteInputId}
+          value={note}
+          onChange={(event) => setNote(event.currentTarget.value)}
+          placeholder={t("favorites.notePlaceholder")}
+          rows={4}
+          className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+        />
+        <p className="text-xs text-muted-foreground">{t("favorites.noteHint")}</p>
+        <Button type="button" size="sm" onClick={() => void handleSave()} disabled={saving}>
+          {t("favorites.saveNote")}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
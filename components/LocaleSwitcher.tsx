@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import { Languages } from "lucide-react";
+
+import { NativeSelect } from "@/components/ui/native-select";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  createI18n,
+  isLocale,
+  type I18n,
+  type Locale,
+} from "@/lib/i18n";
+
+const STORAGE_KEY = "customs-explorer:locale";
+
+const listeners = new Set<() => void>();
+
+function readStoredLocale(): Locale {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Keep other tabs in step with a switch made here
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+function setStoredLocale(locale: Locale) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.error("Failed to persist locale:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export type I18nController = I18n & {
+  setLocale: (locale: Locale) => void;
+};
+
+/**
+ * The visitor's locale, persisted in localStorage. The static export renders
+ * Albanian and switches after hydration.
+ */
+export function useI18n(): I18nController {
+  const locale = useSyncExternalStore(
+    subscribe,
+    readStoredLocale,
+    () => DEFAULT_LOCALE,
+  );
+  return useMemo(
+    () => ({ ...createI18n(locale), setLocale: setStoredLocale }),
+    [locale],
+  );
+}
+
+export function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-muted-foreground">
+      <Languages aria-hidden className="h-4 w-4" />
+      <span className="sr-only">{t("common.language")}</span>
+      <NativeSelect
+        value={locale}
+        onChange={(event) => {
+          const next = event.currentTarget.value;
+          if (isLocale(next)) setLocale(next);
+        }}
+        className="h-8 w-auto py-1"
+      >
+        {LOCALES.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </NativeSelect>
+    </label>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from "react";
+import { X } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { RATE_FIELDS, type RateField } from "@/lib/dataset-diff";
+import {
+  EMPTY_FILTERS,
+  MEASURE_FILTERS,
+  hasActiveFilters,
+  isMeasureFilter,
+  setRateRange,
+  type RecordFilters,
+} from "@/lib/record-filters";
+import { UOM_CODES, describeUom } from "@/lib/uom";
+
+type RateFiltersProps = {
+  filters: RecordFilters;
+  onChange: (filters: RecordFilters) => void;
+};
+
+type Bound = "min" | "max";
+type Drafts = Partial<Record<`${RateField}.${Bound}`, string>>;
+
+function parseBound(raw: string): number | null {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  const value = Number(trimmed.replace(",", "."));
+  return Number.isFinite(value) ? value : null;
+}
+
+function toDrafts(filters: RecordFilters): Drafts {
+  const drafts: Drafts = {};
+  for (const field of RATE_FIELDS) {
+    const range = filters.ranges[field];
+    if (range?.min != null) drafts[`${field}.min`] = String(range.min);
+    if (range?.max != null) drafts[`${field}.max`] = String(range.max);
+  }
+  return drafts;
+}
+
+export function RateFilters({ filters, onChange }: RateFiltersProps) {
+  const { t } = useI18n();
+  // Raw text per input, so partial values like "0," survive re-renders
+  const [drafts, setDrafts] = useState<Drafts>(() => toDrafts(filters));
+
+  const handleBoundChange = (field: RateField, bound: Bound, raw: string) => {
+    const next = { ...drafts, [`${field}.${bound}`]: raw };
+    setDrafts(next);
+    onChange({
+      ...filters,
+      ranges: setRateRange(filters.ranges, field, {
+        min: parseBound(next[`${field}.min`] ?? ""),
+        max: parseBound(next[`${field}.max`] ?? ""),
+      }),
+    });
+  };
+
+  const handleClear = () => {
+    setDrafts({});
+    onChange(EMPTY_FILTERS);
+  };
+
+  const titleId = "rate-filters-title";
+  const uomInputId = "filter-uom-input";
+  const uomListId = "filter-uom-options";
+  const measureInputId = "filter-measure-input";
+
+  return (
+    <div role="group" aria-labelledby={titleId} className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span id={titleId} className="text-sm text-muted-foreground">
+          {t("filters.title")}
+        </span>
+        {hasActiveFilters(filters) ? (
+          <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+            <X aria-hidden />
+            {t("filters.clear")}
+          </Button>
+        ) : null}
+      </div>
+      <div className="grid gap-3 sm:grid-cols-4 lg:grid-cols-8">
+        {RATE_FIELDS.map((field) => (
+          <div key={field} className="space-y-1">
+            <span className="text-xs font-medium text-muted-foreground">
+              {t(`rate.${field}`)}
+            </span>
+            <div className="flex items-center gap-1">
+              {(["min", "max"] as const).map((bound) => (
+                <Input
+                  key={bound}
+                  type="text"
+                  value={drafts[`${field}.${bound}`] ?? ""}
+                  onChange={(event) =>
+                    handleBoundChange(field, bound, event.currentTarget.value)}
+                  placeholder={t(`filters.${bound}`)}
+                  aria-label={t(`filters.${bound}For`, { field: t(`rate.${field}`) })}
+                  autoComplete="off"
+                  inputMode="decimal"
+                  className="h-8 px-2 tabular-nums"
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="space-y-1">
+          <Label htmlFor={uomInputId} className="text-xs font-medium text-muted-foreground">
+            {t("filters.uom")}
+          </Label>
+          <Input
+            id={uomInputId}
+            type="text"
+            value={filters.uomCode ?? ""}
+            onChange={(event) =>
+              onChange({
+                ...filters,
+                uomCode: event.currentTarget.value.trim() || null,
+              })}
+            placeholder={t("filters.uomPlaceholder")}
+            autoComplete="off"
+            list={uomListId}
+            className="h-8 px-2"
+          />
+          <datalist id={uomListId}>
+            {UOM_CODES.map((code) => (
+              <option key={code} value={code}>
+                {describeUom(code, t)}
+              </option>
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={measureInputId} className="text-xs font-medium text-muted-foreground">
+            {t("filters.measure")}
+          </Label>
+          <NativeSelect
+            id={measureInputId}
+            value={filters.measure ?? ""}
+            onChange={(event) => {
+              const next = event.currentTarget.value;
+              onChange({
+                ...filters,
+                measure: isMeasureFilter(next) ? next : null,
+              });
+            }}
+            className="h-8 py-1"
+          >
+            <option value="">{t("filters.measure.any")}</option>
+            {MEASURE_FILTERS.map((measure) => (
+              <option key={measure} value={measure}>
+                {t(`filters.measure.${measure}`)}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">{t("filters.hint")}</p>
+    </div>
+  );
+}
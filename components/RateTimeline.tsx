@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import type { CustomsRecord } from "@/lib/database";
+import { RATE_FIELDS } from "@/lib/dataset-diff";
+import { formatDate, formatPercent } from "@/lib/formatters";
+import { cn } from "@/lib/utils";
+
+type RateTimelineProps = {
+  code: string;
+};
+
+export function RateTimeline({ code }: RateTimelineProps) {
+  const { locale, t } = useI18n();
+  const [versions, setVersions] = useState<CustomsRecord[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    CustomsWorkerClient.getHistory(code)
+      .then((next) => {
+        if (cancelled) return;
+        setVersions(next);
+        setLoadFailed(false);
+      })
+      .catch((error) => {
+        console.error("Failed to load rate history:", { code, error });
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  if (loadFailed) {
+    return <p className="text-sm text-destructive">{t("common.loadFailed")}</p>;
+  }
+
+  if (!versions) {
+    return <p className="text-sm text-muted-foreground">{t("common.loading")}</p>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("history.empty")}
+      </p>
+    );
+  }
+
+  // Newest first; a cell is marked when it differs from the version before it.
+  const rows = versions
+    .map((version, index) => ({ version, previous: versions[index - 1] }))
+    .reverse();
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[560px] text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs uppercase tracking-wide text-muted-foreground">
+            <th className="py-2 pr-2 font-semibold">{t("column.validFrom")}</th>
+            {RATE_FIELDS.map((field) => (
+              <th key={field} className="py-2 pr-2 text-right font-semibold">
+                {t(`rate.${field}`)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ version, previous }) => (
+            <tr key={version.validFrom} className="border-b border-border/60">
+              <td className="py-2 pr-2">{formatDate(version.validFrom, locale)}</td>
+              {RATE_FIELDS.map((field) => {
+                const changed = previous ? previous[field] !== version[field] : false;
+                return (
+                  <td
+                    key={field}
+                    className="py-2 pr-2 text-right tabular-nums"
+                    title={
+                      changed && previous
+                        ? t("history.previous", {
+                          value: formatPercent(previous[field], locale),
+                        })
+                        : undefined
+                    }
+                  >
+                    <span
+                      className={cn(
+                        changed && "rounded bg-amber-200 px-0.5 font-semibold",
+                      )}
+                    >
+                      {formatPercent(version[field], locale)}
+                    </span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+type RateTimelineCardProps = {
+  record: CustomsRecord;
+  onClose?: () => void;
+};
+
+export function RateTimelineCard({ record, onClose }: RateTimelineCardProps) {
+  const { t } = useI18n();
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold sm:text-xl">
+          {t("history.title")}
+        </CardTitle>
+        <CardDescription className="text-sm text-muted-foreground">
+          <span className="font-mono">{record.code}</span> — {record.description}
+        </CardDescription>
+        {onClose ? (
+          <CardAction>
+            <Button
+              onClick={onClose}
+              aria-label={t("history.close")}
+              variant="ghost"
+              size="icon-sm"
+              type="button"
+            >
+              <X aria-hidden />
+            </Button>
+          </CardAction>
+        ) : null}
+      </CardHeader>
+      <CardContent>
+        <RateTimeline code={record.code} />
+      </CardContent>
+    </Card>
+  );
+}
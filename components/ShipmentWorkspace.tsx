@@ -0,0 +1,527 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type FormEvent } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import type {
+  CustomsRecord,
+  ShipmentLine,
+  ShipmentRecord,
+} from "@/lib/database";
+import { formatDate, formatMoney, formatPercent } from "@/lib/formatters";
+import { ORIGIN_OPTIONS, isOriginId, type OriginId } from "@/lib/origin";
+import {
+  ShipmentService,
+  createShipment,
+  createShipmentLine,
+  summarizeShipment,
+} from "@/lib/shipments";
+
+export type ShipmentsController = {
+  shipments: ShipmentRecord[];
+  active: ShipmentRecord | null;
+  create: () => Promise<ShipmentRecord>;
+  open: (id: number) => Promise<void>;
+  close: () => void;
+  update: (next: ShipmentRecord) => void;
+  remove: () => Promise<void>;
+  addCode: (code: string) => Promise<void>;
+  refreshList: () => Promise<void>;
+};
+
+/** Owns the open shipment and persists every edit to Dexie. */
+export function useShipments(defaultOrigin: OriginId): ShipmentsController {
+  const { locale, t } = useI18n();
+  const [shipments, setShipments] = useState<ShipmentRecord[]>([]);
+  const [active, setActive] = useState<ShipmentRecord | null>(null);
+  const activeRef = useRef<ShipmentRecord | null>(null);
+
+  const setActiveShipment = useCallback((next: ShipmentRecord | null) => {
+    activeRef.current = next;
+    setActive(next);
+  }, []);
+
+  const refreshList = useCallback(async () => {
+    setShipments(await ShipmentService.list());
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    ShipmentService.list().then((list) => {
+      if (!cancelled) setShipments(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const create = useCallback(async () => {
+    const name = t("shipment.defaultName", {
+      date: formatDate(new Date(), locale),
+    });
+    const saved = await ShipmentService.save(createShipment(defaultOrigin, name));
+    setActiveShipment(saved);
+    await refreshList();
+    return saved;
+  }, [defaultOrigin, locale, t, refreshList, setActiveShipment]);
+
+  const open = useCallback(
+    async (id: number) => {
+      setActiveShipment(await ShipmentService.get(id));
+    },
+    [setActiveShipment],
+  );
+
+  const close = useCallback(() => {
+    setActiveShipment(null);
+    void refreshList();
+  }, [refreshList, setActiveShipment]);
+
+  // Callers only hand in shipments that already carry an id (see `create`),
+  // so each save is an in-place `put` and keystrokes can fire them freely.
+  const update = useCallback(
+    (next: ShipmentRecord) => {
+      setActiveShipment(next);
+      ShipmentService.save(next).catch((error) => {
+        console.error("Failed to save shipment:", error);
+      });
+    },
+    [setActiveShipment],
+  );
+
+  const remove = useCallback(async () => {
+    const id = activeRef.current?.id;
+    if (id === undefined) return;
+    await ShipmentService.remove(id);
+    setActiveShipment(null);
+    await refreshList();
+  }, [refreshList, setActiveShipment]);
+
+  const addCode = useCallback(
+    async (code: string) => {
+      const current = activeRef.current ?? (await create());
+      update({
+        ...current,
+        lines: [...current.lines, createShipmentLine(code)],
+      });
+    },
+    [create, update],
+  );
+
+  return {
+    shipments,
+    active,
+    create,
+    open,
+    close,
+    update,
+    remove,
+    addCode,
+    refreshList,
+  };
+}
+
+type ShipmentWorkspaceProps = {
+  controller: ShipmentsController;
+};
+
+export function ShipmentWorkspace({ controller }: ShipmentWorkspaceProps) {
+  const { shipments, active, create, open, close, update, remove, addCode } =
+    controller;
+  const { locale, t } = useI18n();
+  // Tagged with the codes they were loaded for
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    records: Map<string, CustomsRecord>;
+    failed: boolean;
+  } | null>(null);
+  const [codeInput, setCodeInput] = useState<string>("");
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const codesKey = active ? active.lines.map((line) => line.code).join(",") : "";
+
+  useEffect(() => {
+    let cancelled = false;
+    const codes = codesKey ? codesKey.split(",") : [];
+    CustomsWorkerClient.getRecords(codes)
+      .then((records) => {
+        if (!cancelled) setLoaded({ key: codesKey, records, failed: false });
+      })
+      .catch((error) => {
+        console.error("Failed to load shipment records:", error);
+        if (!cancelled) {
+          setLoaded({ key: codesKey, records: new Map(), failed: true });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [codesKey]);
+
+  const recordsLoaded = loaded?.key === codesKey;
+  const loadFailed = recordsLoaded && loaded.failed;
+  // Until the records arrive, a line without one is not known to be missing
+  const missingKnown = recordsLoaded && !loaded.failed;
+  const summary = active
+    ? summarizeShipment(active, loaded?.records ?? new Map())
+    : null;
+
+  const updateLine = (lineId: string, patch: Partial<ShipmentLine>) => {
+    if (!active) return;
+    update({
+      ...active,
+      lines: active.lines.map((line) =>
+        line.id === lineId ? { ...line, ...patch } : line,
+      ),
+    });
+  };
+
+  const removeLine = (lineId: string) => {
+    if (!active) return;
+    update({
+      ...active,
+      lines: active.lines.filter((line) => line.id !== lineId),
+    });
+  };
+
+  const handleAddCode = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const code = codeInput.trim();
+    if (!code) return;
+    try {
+      const found = await CustomsWorkerClient.getRecords([code]);
+      if (!found.has(code)) {
+        setCodeError(t("shipment.codeNotFound", { code }));
+        return;
+      }
+      setCodeError(null);
+      setCodeInput("");
+      await addCode(code);
+    } catch (error) {
+      console.error("Failed to add code to shipment:", { code, error });
+      setCodeError(t("shipment.addFailed", { code }));
+    }
+  };
+
+  const shipmentSelectId = "shipment-select";
+  const shipmentNameId = "shipment-name";
+  const shipmentOriginId = "shipment-origin";
+  const shipmentCodeId = "shipment-code";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold sm:text-xl">
+          {t("shipment.title")}
+        </CardTitle>
+        <CardDescription className="text-sm text-muted-foreground">
+          {t("shipment.descriptionBefore")}{" "}
+          <Plus aria-hidden className="inline h-3.5 w-3.5" />{" "}
+          {t("shipment.descriptionAfter")}
+        </CardDescription>
+        {active ? (
+          <CardAction>
+            <Button
+              onClick={close}
+              aria-label={t("shipment.close")}
+              variant="ghost"
+              size="icon-sm"
+              type="button"
+            >
+              <X aria-hidden />
+            </Button>
+          </CardAction>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="min-w-56 flex-1 space-y-2">
+            <Label htmlFor={shipmentSelectId} className="text-sm text-muted-foreground">
+              {t("shipment.saved")}
+            </Label>
+            <NativeSelect
+              id={shipmentSelectId}
+              value={active?.id ?? ""}
+              onChange={(event) => {
+                const id = Number(event.currentTarget.value);
+                if (Number.isFinite(id) && id > 0) void open(id);
+                else close();
+              }}
+            >
+              <option value="">{t("shipment.choose")}</option>
+              {shipments.map((shipment) => (
+                <option key={shipment.id} value={shipment.id}>
+                  {t("shipment.option", {
+                    name: shipment.name,
+                    count: shipment.lines.length,
+                  })}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() =>
+              create().catch((error) => {
+                console.error("Failed to create shipment:", error);
+              })
+            }
+          >
+            <Plus aria-hidden />
+            {t("shipment.new")}
+          </Button>
+          {active ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() =>
+                remove().catch((error) => {
+                  console.error("Failed to delete shipment:", error);
+                })
+              }
+            >
+              <Trash2 aria-hidden />
+              {t("shipment.delete")}
+            </Button>
+          ) : null}
+        </div>
+
+        {active && summary ? (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor={shipmentNameId} className="text-sm text-muted-foreground">
+                  {t("shipment.name")}
+                </Label>
+                <Input
+                  id={shipmentNameId}
+                  type="text"
+                  value={active.name}
+                  onChange={(event) =>
+                    update({ ...active, name: event.currentTarget.value })
+                  }
+                  onBlur={() => void controller.refreshList()}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={shipmentOriginId} className="text-sm text-muted-foreground">
+                  {t("common.origin")}
+                </Label>
+                <NativeSelect
+                  id={shipmentOriginId}
+                  value={active.origin}
+                  onChange={(event) => {
+                    const next = event.currentTarget.value;
+                    if (isOriginId(next)) update({ ...active, origin: next });
+                  }}
+                >
+                  {ORIGIN_OPTIONS.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {t(`origin.${option.id}`)}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </div>
+              <form className="space-y-2" onSubmit={handleAddCode}>
+                <Label htmlFor={shipmentCodeId} className="text-sm text-muted-foreground">
+                  {t("shipment.addCode")}
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={shipmentCodeId}
+                    type="text"
+                    value={codeInput}
+                    onChange={(event) => setCodeInput(event.currentTarget.value)}
+                    placeholder={t("shipment.codePlaceholder")}
+                    autoComplete="off"
+                    inputMode="numeric"
+                    aria-invalid={codeError ? true : undefined}
+                  />
+                  <Button type="submit" variant="outline">
+                    {t("shipment.add")}
+                  </Button>
+                </div>
+                {codeError ? (
+                  <p className="text-xs text-destructive">{codeError}</p>
+                ) : null}
+              </form>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[880px] text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs uppercase tracking-wide text-muted-foreground">
+                    <th className="py-2 pr-2 font-semibold">{t("column.code")}</th>
+                    <th className="py-2 pr-2 font-semibold">
+                      {t("column.description")}
+                    </th>
+                    <th className="w-32 py-2 pr-2 font-semibold">
+                      {t("calculator.value")}
+                    </th>
+                    <th className="w-28 py-2 pr-2 font-semibold">
+                      {t("shipment.quantity")}
+                    </th>
+                    <th className="py-2 pr-2 text-right font-semibold">
+                      {t("duty.step.duty")}
+                    </th>
+                    <th className="py-2 pr-2 text-right font-semibold">
+                      {t("duty.step.excise")}
+                    </th>
+                    <th className="py-2 pr-2 text-right font-semibold">
+                      {t("duty.step.vat")}
+                    </th>
+                    <th className="py-2 pr-2 text-right font-semibold">
+                      {t("shipment.total")}
+                    </th>
+                    <th className="w-10 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.lines.length === 0 ? (
+                    <tr>
+                      <td colSpan={9} className="py-6 text-center text-muted-foreground">
+                        {t("shipment.empty")}
+                      </td>
+                    </tr>
+                  ) : null}
+                  {summary.lines.map(({ line, record, breakdown }) => (
+                    <tr key={line.id} className="border-b border-border/60 align-top">
+                      <td className="py-2 pr-2 font-mono">{line.code}</td>
+                      <td className="max-w-72 truncate py-2 pr-2" title={record?.description}>
+                        {record
+                          ? record.description
+                          : missingKnown
+                            ? t("shipment.codeMissing")
+                            : loadFailed
+                              ? "—"
+                              : t("common.loading")}
+                      </td>
+                      <td className="py-2 pr-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.value}
+                          onChange={(event) =>
+                            updateLine(line.id, {
+                              value: event.currentTarget.value,
+                            })
+                          }
+                          aria-label={t("shipment.valueFor", { code: line.code })}
+                          className="h-8"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        {record?.uomCode ? (
+                          <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={line.quantity}
+                            onChange={(event) =>
+                              updateLine(line.id, {
+                                quantity: event.currentTarget.value,
+                              })
+                            }
+                            aria-label={t("shipment.quantityFor", {
+                              code: line.code,
+                              unit: record.uomCode,
+                            })}
+                            placeholder={record.uomCode}
+                            className="h-8"
+                          />
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2 text-right tabular-nums">
+                        {breakdown ? (
+                          <>
+                            {formatMoney(breakdown.duty, locale)}
+                            <span className="block text-xs text-muted-foreground">
+                              {formatPercent(breakdown.dutyRate, locale)}
+                            </span>
+                          </>
+                        ) : "—"}
+                      </td>
+                      <td className="py-2 pr-2 text-right tabular-nums">
+                        {breakdown ? formatMoney(breakdown.excise, locale) : "—"}
+                      </td>
+                      <td className="py-2 pr-2 text-right tabular-nums">
+                        {breakdown ? formatMoney(breakdown.vat, locale) : "—"}
+                      </td>
+                      <td className="py-2 pr-2 text-right font-medium tabular-nums">
+                        {breakdown ? formatMoney(breakdown.total, locale) : "—"}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button
+                          onClick={() => removeLine(line.id)}
+                          aria-label={t("shipment.removeLine", { code: line.code })}
+                          variant="ghost"
+                          size="icon-sm"
+                          type="button"
+                        >
+                          <Trash2 aria-hidden />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold">
+                    <td className="py-2 pr-2" colSpan={2}>
+                      {t("shipment.grandTotal")}
+                    </td>
+                    <td className="py-2 pr-2 tabular-nums">
+                      {formatMoney(summary.totals.value, locale)}
+                    </td>
+                    <td className="py-2 pr-2" />
+                    <td className="py-2 pr-2 text-right tabular-nums">
+                      {formatMoney(summary.totals.duty, locale)}
+                    </td>
+                    <td className="py-2 pr-2 text-right tabular-nums">
+                      {formatMoney(summary.totals.excise, locale)}
+                    </td>
+                    <td className="py-2 pr-2 text-right tabular-nums">
+                      {formatMoney(summary.totals.vat, locale)}
+                    </td>
+                    <td className="py-2 pr-2 text-right tabular-nums">
+                      {formatMoney(summary.totals.total, locale)}
+                    </td>
+                    <td className="py-2" />
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            {loadFailed ? (
+              <p className="text-xs text-destructive">{t("common.loadFailed")}</p>
+            ) : missingKnown && summary.missingCodes.length > 0 ? (
+              <p className="text-xs text-destructive">
+                {t("shipment.missingCodes", {
+                  codes: summary.missingCodes.join(", "),
+                })}
+              </p>
+            ) : null}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
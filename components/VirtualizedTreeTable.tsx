@@ -1,68 +1,157 @@
 'use client';
 
-import { useEffect, useRef } from "react";
-import type { ColumnDef } from "@tanstack/react-table";
+import {
+  useEffect,
+  useId,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from "react";
+import type {
+  Column,
+  ColumnDef,
+  ExpandedState,
+  Row,
+  Updater,
+} from "@tanstack/react-table";
 import {
   flexRender,
   getCoreRowModel,
   getExpandedRowModel,
+  getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table";
 import { useVirtualizer } from "@tanstack/react-virtual";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
 
+import { useI18n } from "@/components/LocaleSwitcher";
+import { getColumnMeta } from "@/components/customs-table/columns";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { CustomsTreeNode } from "@/lib/database";
+import type { TablePreferences } from "@/lib/table-preferences";
+import { cn } from "@/lib/utils";
 
 type VirtualizedTreeTableProps = {
   columns: ColumnDef<CustomsTreeNode, unknown>[];
   data: CustomsTreeNode[];
   loading: boolean;
-  autoExpandAll?: boolean;
+  /** Controlled open rows, keyed by code; otherwise rows start collapsed. */
+  expanded?: ExpandedState;
+  onExpandedChange?: (expanded: ExpandedState) => void;
+  focusedCode?: string | null;
+  onRowClick?: (row: CustomsTreeNode) => void;
+  /** Controlled column order, visibility, widths and sorting. */
+  preferences?: TablePreferences;
+  onPreferencesChange?: (preferences: TablePreferences) => void;
 };
 
-const GRID_TEMPLATE =
-  "minmax(160px,1fr) minmax(600px,1.6fr) 50px 50px 50px 50px 50px 50px 120px";
 const MIN_ROW_HEIGHT = 56;
 const SKELETON_ROW_COUNT = 8;
-const SKELETON_SECONDARY_WIDTHS = [
-  "h-4 w-64",
-  "h-4 w-10",
-  "h-4 w-12",
-  "h-4 w-12",
-  "h-4 w-16",
-  "h-4 w-14",
-  "h-4 w-12",
-  "h-4 w-20",
-];
-
-function computeMinTableWidth(template: string): number {
+
+/**
+ * Growing columns share the spare width until the visitor resizes them;
+ * everything else keeps its size in px.
+ */
+function buildGridTemplate(
+  columns: Column<CustomsTreeNode, unknown>[],
+  resized: Record<string, number>,
+): string {
+  return columns
+    .map((column) => {
+      const grow = getColumnMeta(column.columnDef).grow;
+      const size = Math.round(column.getSize());
+      return grow && resized[column.id] === undefined
+        ? `minmax(${size}px,${grow}fr)`
+        : `${size}px`;
+    })
+    .join(" ");
+}
+
+// Row padding and scrollbar gutter, plus the `gap-4` between columns
+const ROW_CHROME_WIDTH = 42;
+const COLUMN_GAP = 16;
+
+function computeMinTableWidth(template: string, columnCount: number): number {
   const staticColumnsWidth = Array.from(template.matchAll(/(\d+)px/g))
     .map((match) => Number(match[1] ?? 0))
     .reduce((total, width) => total + width, 0);
-  return 170 + staticColumnsWidth;
+  return ROW_CHROME_WIDTH + COLUMN_GAP * Math.max(0, columnCount - 1) +
+    staticColumnsWidth;
 }
 
-const MIN_TABLE_WIDTH = computeMinTableWidth(GRID_TEMPLATE);
-
 export function VirtualizedTreeTable({
   columns,
   data,
   loading,
-  autoExpandAll = true,
+  expanded,
+  onExpandedChange,
+  focusedCode = null,
+  onRowClick,
+  preferences,
+  onPreferencesChange,
 }: VirtualizedTreeTableProps) {
+  // TanStack Table and Virtual hand back mutable instances the compiler
+  // cannot memoize safely
+  "use no memo";
+  const { t } = useI18n();
+  const isControlled = expanded !== undefined;
+
+  const handleExpandedChange = (updater: Updater<ExpandedState>) => {
+    if (!expanded) return;
+    onExpandedChange?.(
+      typeof updater === "function" ? updater(expanded) : updater,
+    );
+  };
+
+  const updatePreference = <K extends keyof TablePreferences>(key: K) =>
+    (updater: Updater<TablePreferences[K]>) => {
+      if (!preferences) return;
+      const current = preferences[key];
+      const next = typeof updater === "function" ? updater(current) : updater;
+      onPreferencesChange?.({ ...preferences, [key]: next });
+    };
+
   const table = useReactTable<CustomsTreeNode>({
     data,
     columns,
     getRowId: (row) => String(row.code),
     getSubRows: (row) => row.subRows ?? [],
     getCoreRowModel: getCoreRowModel(),
+    // Sorts every level's sub-rows on its own, so the hierarchy holds
+    getSortedRowModel: getSortedRowModel(),
     getExpandedRowModel: getExpandedRowModel(),
+    columnResizeMode: "onChange",
+    state: {
+      ...(isControlled ? { expanded } : {}),
+      ...(preferences
+        ? {
+          columnOrder: preferences.columnOrder,
+          columnVisibility: preferences.columnVisibility,
+          columnSizing: preferences.columnSizing,
+          sorting: preferences.sorting,
+        }
+        : {}),
+    },
+    ...(isControlled ? { onExpandedChange: handleExpandedChange } : {}),
+    ...(preferences
+      ? {
+        onColumnOrderChange: updatePreference("columnOrder"),
+        onColumnVisibilityChange: updatePreference("columnVisibility"),
+        onColumnSizingChange: updatePreference("columnSizing"),
+        onSortingChange: updatePreference("sorting"),
+      }
+      : {}),
   });
 
-  useEffect(() => {
-    if (autoExpandAll) table.toggleAllRowsExpanded(true);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data, autoExpandAll]);
+  const visibleColumns = table.getVisibleLeafColumns();
+  const gridTemplate = buildGridTemplate(
+    visibleColumns,
+    table.getState().columnSizing,
+  );
+  const minTableWidth = computeMinTableWidth(
+    gridTemplate,
+    visibleColumns.length,
+  );
 
   const parentRef = useRef<HTMLDivElement | null>(null);
   const rows = table.getRowModel().rows;
@@ -77,34 +166,211 @@ export function VirtualizedTreeTable({
     measureElement: (el) => el.getBoundingClientRect().height,
   });
 
+  // Scroll a focused code into view once its row is rendered
+  const focusedIndex = focusedCode
+    ? rows.findIndex((row) => row.id === focusedCode)
+    : -1;
+  const scrolledFocusRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (loading || focusedIndex < 0 || !focusedCode) return;
+    if (scrolledFocusRef.current === focusedCode) return;
+    scrolledFocusRef.current = focusedCode;
+    rowVirtualizer.scrollToIndex(focusedIndex, { align: "center" });
+  }, [focusedCode, focusedIndex, loading, rowVirtualizer]);
+
   const virtualItems = rowVirtualizer.getVirtualItems();
   const totalSize = rowVirtualizer.getTotalSize();
 
+  // Roving focus: only the active row is in the tab order
+  const [activeRowId, setActiveRowId] = useState<string | null>(null);
+  const activeIndex = loading || rows.length === 0
+    ? -1
+    : Math.max(0, rows.findIndex((row) => row.id === activeRowId));
+  const activeRendered = virtualItems.some(
+    (item) => item.index === activeIndex,
+  );
+  const pendingFocusRef = useRef<number | null>(null);
+
+  const focusRenderedRow = (index: number) => {
+    const element = parentRef.current?.querySelector<HTMLElement>(
+      `[data-index="${index}"]`,
+    );
+    element?.focus({ preventScroll: true });
+    return Boolean(element);
+  };
+
+  // A row scrolled in by the keyboard takes focus once it is rendered
+  useEffect(() => {
+    const index = pendingFocusRef.current;
+    if (index === null || !focusRenderedRow(index)) return;
+    pendingFocusRef.current = null;
+  });
+
+  const moveTo = (index: number) => {
+    const targetIndex = Math.min(Math.max(index, 0), rows.length - 1);
+    const target = rows[targetIndex];
+    if (!target) return;
+    setActiveRowId(target.id);
+    rowVirtualizer.scrollToIndex(targetIndex, { align: "auto" });
+    if (!focusRenderedRow(targetIndex)) pendingFocusRef.current = targetIndex;
+  };
+
+  const handleRowKeyDown = (
+    event: KeyboardEvent<HTMLDivElement>,
+    row: Row<CustomsTreeNode>,
+    index: number,
+  ) => {
+    // Keys pressed on buttons and links inside a cell keep their own meaning
+    if (event.target !== event.currentTarget) return;
+    const pageSize = Math.max(
+      1,
+      Math.floor((parentRef.current?.clientHeight ?? 0) / MIN_ROW_HEIGHT),
+    );
+    switch (event.key) {
+      case "ArrowDown":
+        moveTo(index + 1);
+        break;
+      case "ArrowUp":
+        moveTo(index - 1);
+        break;
+      case "PageDown":
+        moveTo(index + pageSize);
+        break;
+      case "PageUp":
+        moveTo(index - pageSize);
+        break;
+      case "Home":
+        moveTo(0);
+        break;
+      case "End":
+        moveTo(rows.length - 1);
+        break;
+      case "ArrowRight":
+        if (!row.getCanExpand()) return;
+        if (row.getIsExpanded()) moveTo(index + 1);
+        else row.toggleExpanded(true);
+        break;
+      case "ArrowLeft": {
+        if (row.getCanExpand() && row.getIsExpanded()) {
+          row.toggleExpanded(false);
+          break;
+        }
+        const parent = row.getParentRow();
+        if (!parent) return;
+        moveTo(rows.findIndex((candidate) => candidate.id === parent.id));
+        break;
+      }
+      case "Enter":
+        if (!onRowClick) return;
+        onRowClick(row.original);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const hintId = useId();
+
   return (
     <div className="w-full overflow-x-auto">
-      <div style={{ minWidth: MIN_TABLE_WIDTH }}>
+      <div
+        role="treegrid"
+        aria-label={t("table.label")}
+        aria-describedby={hintId}
+        aria-rowcount={loading ? -1 : rows.length + 1}
+        aria-colcount={visibleColumns.length}
+        aria-busy={loading}
+        style={{ minWidth: minTableWidth }}
+      >
+        <p id={hintId} className="sr-only">
+          {t("table.keyboardHint")}
+        </p>
         <div
+          role="row"
+          aria-rowindex={1}
           className="sticky top-0 z-10 grid gap-4 border-b bg-muted/60 px-4 py-3 text-xs font-semibold uppercase tracking-wide text-muted-foreground"
-          style={{ gridTemplateColumns: GRID_TEMPLATE }}
+          style={{ gridTemplateColumns: gridTemplate }}
         >
           {table
             .getHeaderGroups()
             .map((headerGroup) =>
-              headerGroup.headers.map((header) => (
-                <div key={header.id} className="min-w-0">
-                  {header.isPlaceholder
-                    ? null
-                    : flexRender(
-                      header.column.columnDef.header,
-                      header.getContext(),
+              headerGroup.headers.map((header, columnIndex) => {
+                const { column } = header;
+                const content = header.isPlaceholder
+                  ? null
+                  : flexRender(column.columnDef.header, header.getContext());
+                const sorted = column.getIsSorted();
+                const SortIcon = sorted === "asc"
+                  ? ArrowUp
+                  : sorted === "desc"
+                    ? ArrowDown
+                    : ArrowUpDown;
+                return (
+                  <div
+                    key={header.id}
+                    role="columnheader"
+                    aria-colindex={columnIndex + 1}
+                    aria-sort={
+                      !column.getCanSort()
+                        ? undefined
+                        : sorted === "asc"
+                          ? "ascending"
+                          : sorted === "desc"
+                            ? "descending"
+                            : "none"
+                    }
+                    className="relative min-w-0"
+                  >
+                    {column.getCanSort() ? (
+                      <button
+                        type="button"
+                        onClick={column.getToggleSortingHandler()}
+                        className="inline-flex max-w-full items-center gap-1 uppercase tracking-wide hover:text-foreground"
+                        title={t("column.sort")}
+                      >
+                        <span className="truncate">{content}</span>
+                        <SortIcon
+                          aria-hidden
+                          className={cn(
+                            "h-3 w-3 shrink-0",
+                            !sorted && "opacity-40",
+                          )}
+                        />
+                      </button>
+                    ) : (
+                      content
                     )}
-                </div>
-              )),
+                    {column.getCanResize() ? (
+                      <div
+                        role="separator"
+                        aria-orientation="vertical"
+                        aria-label={t("column.resize")}
+                        onMouseDown={header.getResizeHandler()}
+                        onTouchStart={header.getResizeHandler()}
+                        onDoubleClick={() => column.resetSize()}
+                        className={cn(
+                          "absolute -right-2.5 top-0 h-full w-1 cursor-col-resize touch-none select-none rounded bg-border opacity-0 hover:opacity-100",
+                          column.getIsResizing() && "bg-primary opacity-100",
+                        )}
+                      />
+                    ) : null}
+                  </div>
+                );
+              }),
             )}
         </div>
         <div
           ref={parentRef}
-          className="relative"
+          role="rowgroup"
+          // Keeps the table reachable by Tab while the active row is scrolled away
+          tabIndex={rows.length > 0 && !activeRendered ? 0 : -1}
+          onFocus={(event) => {
+            if (event.target === event.currentTarget && activeIndex >= 0) {
+              moveTo(activeIndex);
+            }
+          }}
+          className="relative outline-none"
           style={{
             maxHeight: "calc(100vh - 220px)",
             overflowY: "auto",
@@ -118,40 +384,76 @@ export function VirtualizedTreeTable({
                   <div
                     key={`skeleton-${virtualItem.index}`}
                     ref={rowVirtualizer.measureElement}
+                    aria-hidden
                     className="absolute inset-x-0 grid items-center gap-4 border-b px-4 py-3 text-sm"
                     style={{
-                      gridTemplateColumns: GRID_TEMPLATE,
+                      gridTemplateColumns: gridTemplate,
                       transform: `translateY(${virtualItem.start}px)`,
                       height: virtualItem.size,
                     }}
                   >
-                    <div className="flex items-center gap-3">
-                      <Skeleton className="h-4 w-4 rounded-full" />
-                      <Skeleton className="h-4 w-24" />
-                    </div>
-                    {SKELETON_SECONDARY_WIDTHS.map((className, index) => (
-                      <Skeleton key={index} className={className} />
-                    ))}
+                    {visibleColumns.map((column, index) =>
+                      index === 0 ? (
+                        <div key={column.id} className="flex items-center gap-3">
+                          <Skeleton className="h-4 w-4 rounded-full" />
+                          <Skeleton className="h-4 w-24" />
+                        </div>
+                      ) : (
+                        <Skeleton
+                          key={column.id}
+                          className={getColumnMeta(column.columnDef).grow ? "h-4 w-64 max-w-full" : "h-4 w-3/4"}
+                        />
+                      )
+                    )}
                   </div>
                 );
               }
 
               const row = rows[virtualItem.index];
               if (!row) return null;
+              const canExpand = row.getCanExpand();
               return (
                 <div
                   key={row.id}
                   data-index={virtualItem.index}
                   ref={rowVirtualizer.measureElement}
-                  className="absolute inset-x-0 grid gap-4 border-b px-4 py-3 text-sm transition-colors hover:bg-muted/40"
+                  role="row"
+                  aria-rowindex={virtualItem.index + 2}
+                  aria-level={row.depth + 1}
+                  aria-expanded={canExpand ? row.getIsExpanded() : undefined}
+                  tabIndex={virtualItem.index === activeIndex ? 0 : -1}
+                  onFocus={() => setActiveRowId(row.id)}
+                  onKeyDown={(event) =>
+                    handleRowKeyDown(event, row, virtualItem.index)
+                  }
+                  className={cn(
+                    "absolute inset-x-0 grid gap-4 border-b px-4 py-3 text-sm transition-colors outline-none hover:bg-muted/40 focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring",
+                    row.id === focusedCode && "bg-amber-50 hover:bg-amber-100/60",
+                    onRowClick && "cursor-pointer",
+                  )}
+                  onClick={
+                    onRowClick
+                      ? (event) => {
+                        // Buttons and links inside cells keep their own action
+                        const target = event.target as HTMLElement;
+                        if (target.closest("button, a, input, select")) return;
+                        onRowClick(row.original);
+                      }
+                      : undefined
+                  }
                   style={{
-                    gridTemplateColumns: GRID_TEMPLATE,
+                    gridTemplateColumns: gridTemplate,
                     transform: `translateY(${virtualItem.start}px)`,
                     height: virtualItem.size,
                   }}
                 >
-                  {row.getVisibleCells().map((cell) => (
-                    <div key={cell.id} className="min-w-0">
+                  {row.getVisibleCells().map((cell, columnIndex) => (
+                    <div
+                      key={cell.id}
+                      role="gridcell"
+                      aria-colindex={columnIndex + 1}
+                      className="min-w-0"
+                    >
                       {flexRender(cell.column.columnDef.cell, {
                         ...cell.getContext(),
                         row,
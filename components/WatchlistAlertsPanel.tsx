@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { Bell } from "lucide-react";
+
+import { RateChanges } from "@/components/DatasetChangesPanel";
+import { useI18n } from "@/components/LocaleSwitcher";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CustomsWorkerClient } from "@/lib/customs-worker-client";
+import type { WatchlistAlert } from "@/lib/dataset-diff";
+import { formatDate } from "@/lib/formatters";
+
+type WatchlistAlertsPanelProps = {
+  ready: boolean;
+};
+
+/** Rate changes to starred codes, kept until the user acknowledges them. */
+export function WatchlistAlertsPanel({ ready }: WatchlistAlertsPanelProps) {
+  const { locale, t } = useI18n();
+  const [alerts, setAlerts] = useState<WatchlistAlert[]>([]);
+
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+    CustomsWorkerClient.getWatchlistAlerts()
+      .then((next) => {
+        if (!cancelled) setAlerts(next);
+      })
+      .catch((error) => {
+        console.error("Failed to load watchlist alerts:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [ready]);
+
+  if (alerts.length === 0) return null;
+
+  const handleAcknowledge = async () => {
+    try {
+      await CustomsWorkerClient.acknowledgeWatchlistAlerts();
+    } catch (error) {
+      // Still hide them for now; they come back on the next visit
+      console.error("Failed to acknowledge watchlist alerts:", error);
+    }
+    setAlerts([]);
+  };
+
+  return (
+    <Card className="border-amber-300 dark:border-amber-700" role="status">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold sm:text-xl">
+          <Bell aria-hidden className="size-5 text-amber-600" />
+          {t("watchlist.title")}
+        </CardTitle>
+        <CardDescription className="text-sm text-muted-foreground">
+          {t("watchlist.description")}
+        </CardDescription>
+        <CardAction>
+          <Button type="button" variant="outline" size="sm" onClick={handleAcknowledge}>
+            {t("watchlist.acknowledge")}
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {alerts.map((alert) => (
+          <section key={`${alert.toVersion}-${alert.createdAt}`} className="space-y-2">
+            <h3 className="text-xs font-medium text-muted-foreground">
+              <span className="font-mono">{alert.toVersion}</span> ·{" "}
+              {formatDate(alert.createdAt, locale)}
+            </h3>
+            {alert.changed.length > 0 ? (
+              <ul className="space-y-1 text-xs">
+                {alert.changed.map((entry) => (
+                  <li key={entry.code} className="flex gap-3">
+                    <span className="w-24 shrink-0 font-mono">{entry.code}</span>
+                    <RateChanges changes={entry.changes} />
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+            {alert.removed.length > 0 ? (
+              <p className="text-xs">
+                {t("watchlist.removed")}{" "}
+                <span className="font-mono">
+                  {alert.removed.map((entry) => entry.code).join(", ")}
+                </span>
+              </p>
+            ) : null}
+          </section>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
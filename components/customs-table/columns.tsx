@@ -1,23 +1,249 @@
 import type { ColumnDef } from "@tanstack/react-table";
+import {
+  Calculator,
+  FileText,
+  GitCompareArrows,
+  History,
+  Plus,
+  Star,
+  StickyNote,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { ExpandIcon } from "@/components/ExpandIcon";
 import { formatDate, formatPercent } from "@/lib/formatters";
 import { highlightPrefix } from "@/lib/highlighting";
-import type { CustomsTreeNode } from "@/lib/database";
+import { MAX_COMPARED_CODES } from "@/lib/compare";
+import type { CustomsTreeNode, FavoriteRecord } from "@/lib/database";
+import type { DutyRateField } from "@/lib/duty";
+import type { I18n } from "@/lib/i18n";
+import { getOriginOption, type OriginId } from "@/lib/origin";
+import { describeUom } from "@/lib/uom";
+import { cn } from "@/lib/utils";
+
+/** What the columns keep in `meta`, read back through `getColumnMeta`. */
+export type CustomsColumnMeta = {
+  /** Plain-text name for menus, since `header` may render markup. */
+  label?: string;
+  /** Share of the spare width; columns without it keep their size. */
+  grow?: number;
+};
+
+export function getColumnMeta(
+  column: Pick<ColumnDef<CustomsTreeNode>, "meta">,
+): CustomsColumnMeta {
+  return (column.meta ?? {}) as CustomsColumnMeta;
+}
 
 type ColumnFactoryParams = {
+  i18n: I18n;
   codePrefix: string;
+  origin: OriginId;
+  onCalculate?: (record: CustomsTreeNode) => void;
+  onAddToShipment?: (record: CustomsTreeNode) => void;
+  onShowHistory?: (record: CustomsTreeNode) => void;
+  onFocusCode?: (code: string) => void;
+  favorites?: ReadonlyMap<string, FavoriteRecord>;
+  onToggleFavorite?: (record: CustomsTreeNode) => void;
+  onEditNote?: (record: CustomsTreeNode) => void;
+  /** Codes in the compare tray; a full tray disables the button elsewhere. */
+  comparedCodes?: string[];
+  onToggleCompare?: (record: CustomsTreeNode) => void;
 };
 
+const RATE_COLUMN_SIZE = 64;
+
+const MEASURE_BADGE_CLASS =
+  "rounded border border-amber-300 bg-amber-50 px-1 text-[10px] font-semibold uppercase text-amber-900";
+
+const EFFECTIVE_RATE_CLASS =
+  "rounded bg-emerald-100 px-1 font-semibold text-emerald-900";
+
 export function createCustomsColumns({
+  i18n,
   codePrefix,
+  origin,
+  onCalculate,
+  onAddToShipment,
+  onShowHistory,
+  onFocusCode,
+  favorites,
+  onToggleFavorite,
+  onEditNote,
+  comparedCodes = [],
+  onToggleCompare,
 }: ColumnFactoryParams): ColumnDef<CustomsTreeNode>[] {
+  const { locale, t } = i18n;
+  const effectiveField = getOriginOption(origin).rateField;
+
+  const dutyRateColumn = (field: DutyRateField): ColumnDef<CustomsTreeNode> => {
+    const isEffective = field === effectiveField;
+    return {
+      id: field,
+      accessorKey: field,
+      size: RATE_COLUMN_SIZE,
+      minSize: 40,
+      meta: { label: t(`rate.${field}`) } satisfies CustomsColumnMeta,
+      header: () => (
+        <span
+          className={cn(isEffective && EFFECTIVE_RATE_CLASS)}
+          title={isEffective ? t("column.effectiveRate") : undefined}
+        >
+          {t(`rate.${field}`)}
+        </span>
+      ),
+      cell: (info) => (
+        <span className={cn(isEffective && EFFECTIVE_RATE_CLASS)}>
+          {formatPercent(info.getValue() as number, locale)}
+        </span>
+      ),
+    };
+  };
+
+  const hasActions = Boolean(
+    onToggleFavorite ||
+      onEditNote ||
+      onToggleCompare ||
+      onCalculate ||
+      onShowHistory ||
+      onAddToShipment,
+  );
+  // Row actions sit in their own column so the code cell keeps its width
+  const actionsColumn: ColumnDef<CustomsTreeNode> = {
+    header: t("column.actions"),
+    id: "actions",
+    size: 200,
+    minSize: 200,
+    enableSorting: false,
+    enableResizing: false,
+    // Kept last, after any reordering
+    enableHiding: false,
+    meta: { label: t("column.actions") } satisfies CustomsColumnMeta,
+    cell: (info) => {
+      const row = info.row;
+      const value = row.original.code;
+      const favorite = favorites?.get(value);
+      return (
+        <div className="flex items-center">
+          {onToggleFavorite ? (
+            <Button
+              onClick={() => onToggleFavorite(row.original)}
+              aria-label={t("column.favoriteFor", { code: value })}
+              aria-pressed={Boolean(favorite)}
+              title={favorite ? t("column.unfavorite") : t("column.favorite")}
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-7 px-2 text-muted-foreground",
+                favorite && "text-amber-500",
+              )}
+              type="button"
+            >
+              <Star
+                aria-hidden
+                className={cn("h-3.5 w-3.5", favorite && "fill-current")}
+              />
+            </Button>
+          ) : null}
+          {onEditNote ? (
+            <Button
+              onClick={() => onEditNote(row.original)}
+              aria-label={t("column.noteFor", { code: value })}
+              title={favorite?.note || t("column.note")}
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-7 px-2 text-muted-foreground",
+                favorite?.note && "text-amber-600",
+              )}
+              type="button"
+            >
+              <StickyNote
+                aria-hidden
+                className={cn("h-3.5 w-3.5", favorite?.note && "fill-amber-100")}
+              />
+            </Button>
+          ) : null}
+          {onToggleCompare ? (
+            <Button
+              onClick={() => onToggleCompare(row.original)}
+              aria-label={t("column.compareFor", { code: value })}
+              aria-pressed={comparedCodes.includes(value)}
+              title={
+                comparedCodes.includes(value) ||
+                  comparedCodes.length < MAX_COMPARED_CODES
+                  ? t("column.compare")
+                  : t("column.compareFull", { max: MAX_COMPARED_CODES })
+              }
+              disabled={
+                !comparedCodes.includes(value) &&
+                comparedCodes.length >= MAX_COMPARED_CODES
+              }
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-7 px-2 text-muted-foreground",
+                comparedCodes.includes(value) && "text-primary",
+              )}
+              type="button"
+            >
+              <GitCompareArrows aria-hidden className="h-3.5 w-3.5" />
+            </Button>
+          ) : null}
+          {onCalculate ? (
+            <Button
+              onClick={() => onCalculate(row.original)}
+              aria-label={t("column.calculateFor", { code: value })}
+              title={t("column.calculate")}
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-muted-foreground"
+              type="button"
+            >
+              <Calculator aria-hidden className="h-3.5 w-3.5" />
+            </Button>
+          ) : null}
+          {onShowHistory ? (
+            <Button
+              onClick={() => onShowHistory(row.original)}
+              aria-label={t("column.historyFor", { code: value })}
+              title={t("history.title")}
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-muted-foreground"
+              type="button"
+            >
+              <History aria-hidden className="h-3.5 w-3.5" />
+            </Button>
+          ) : null}
+          {onAddToShipment ? (
+            <Button
+              onClick={() => onAddToShipment(row.original)}
+              aria-label={t("column.addToShipmentFor", { code: value })}
+              title={t("column.addToShipment")}
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-muted-foreground"
+              type="button"
+            >
+              <Plus aria-hidden className="h-3.5 w-3.5" />
+            </Button>
+          ) : null}
+        </div>
+      );
+    },
+  };
+
   return [
     {
-      header: "Kodi",
+      header: t("column.code"),
       id: "code",
       accessorFn: (row) => row.code,
+      size: 160,
+      minSize: 120,
+      // The tree toggles live here, so it stays visible and first
+      enableHiding: false,
+      meta: { label: t("column.code"), grow: 1 } satisfies CustomsColumnMeta,
       cell: (info) => {
         const row = info.row;
         const value = info.getValue() as string;
@@ -33,7 +259,7 @@ export function createCustomsColumns({
               {canExpand ? (
                 <Button
                   onClick={row.getToggleExpandedHandler()}
-                  aria-label={isExpanded ? "Tkurre" : "Zgjero"}
+                  aria-label={isExpanded ? t("column.collapse") : t("column.expand")}
                   variant="outline"
                   size="sm"
                   className="h-7 px-2 text-xs"
@@ -45,25 +271,48 @@ export function createCustomsColumns({
                 <span className="inline-block" style={{ width: 20 }} />
               )}
             </div>
-            <span className="truncate font-mono" title={value}>
-              {renderedCode}
-            </span>
+            {onFocusCode ? (
+              <button
+                type="button"
+                onClick={() => onFocusCode(value)}
+                className="truncate font-mono text-left underline-offset-4 hover:underline"
+                title={t("column.focusCode", { code: value })}
+              >
+                {renderedCode}
+              </button>
+            ) : (
+              <span className="truncate font-mono" title={value}>
+                {renderedCode}
+              </span>
+            )}
           </div>
         );
       },
     },
     {
-      header: "Përshkrimi",
+      header: t("column.description"),
       id: "description",
       accessorKey: "description",
+      size: 600,
+      minSize: 200,
+      enableSorting: false,
+      meta: { label: t("column.description"), grow: 1.6 } satisfies CustomsColumnMeta,
       cell: (info) => {
-        const value = info.getValue() as string;
-        const highlightHtml = info.row.original.highlightedDescription;
+        const record = info.row.original;
+        const original = info.getValue() as string;
+        // Prefer the visitor's language when the dataset carries it, keeping
+        // the authoritative Albanian text in the tooltip.
+        const language = locale === "sq" ? null : locale;
+        const translated = language ? record.descriptions?.[language] : undefined;
+        const value = translated || original;
+        const highlightHtml = translated && language
+          ? record.highlightedDescriptions?.[language]
+          : record.highlightedDescription;
         return (
           <div
             className="break-words hyphens-auto truncate overflow-hidden"
-            lang="sq"
-            title={typeof value === "string" ? value : undefined}
+            lang={translated ? locale : "sq"}
+            title={typeof original === "string" ? original : undefined}
             dangerouslySetInnerHTML={
               highlightHtml && highlightHtml.length
                 ? { __html: highlightHtml }
@@ -75,42 +324,109 @@ export function createCustomsColumns({
         );
       },
     },
+    dutyRateColumn("percentage"),
+    dutyRateColumn("cefta"),
+    dutyRateColumn("msa"),
+    dutyRateColumn("trmtl"),
     {
-      header: "Bazë",
-      accessorKey: "percentage",
-      cell: (info) => <span>{formatPercent(info.getValue() as number)}</span>,
-    },
-    {
-      header: "CEFTA",
-      accessorKey: "cefta",
-      cell: (info) => <span>{formatPercent(info.getValue() as number)}</span>,
-    },
-    {
-      header: "MSA",
-      accessorKey: "msa",
-      cell: (info) => <span>{formatPercent(info.getValue() as number)}</span>,
+      header: t("rate.tvsh"),
+      id: "tvsh",
+      accessorKey: "tvsh",
+      size: RATE_COLUMN_SIZE,
+      minSize: 40,
+      meta: { label: t("rate.tvsh") } satisfies CustomsColumnMeta,
+      cell: (info) => (
+        <span>{formatPercent(info.getValue() as number, locale)}</span>
+      ),
     },
     {
-      header: "TRMTL",
-      accessorKey: "trmtl",
-      cell: (info) => <span>{formatPercent(info.getValue() as number)}</span>,
+      header: t("rate.excise"),
+      id: "excise",
+      accessorKey: "excise",
+      size: RATE_COLUMN_SIZE,
+      minSize: 40,
+      meta: { label: t("rate.excise") } satisfies CustomsColumnMeta,
+      cell: (info) => (
+        <span>{formatPercent(info.getValue() as number, locale)}</span>
+      ),
     },
     {
-      header: "TVSH",
-      accessorKey: "tvsh",
-      cell: (info) => <span>{formatPercent(info.getValue() as number)}</span>,
+      header: t("column.uom"),
+      id: "uomCode",
+      accessorFn: (row) => row.uomCode ?? "",
+      size: 70,
+      minSize: 50,
+      meta: { label: t("column.uom") } satisfies CustomsColumnMeta,
+      cell: (info) => {
+        const code = info.getValue() as string;
+        if (!code) return <span className="text-muted-foreground">—</span>;
+        return (
+          <abbr
+            className="font-mono text-xs no-underline"
+            title={describeUom(code, t) ?? undefined}
+          >
+            {code}
+          </abbr>
+        );
+      },
     },
     {
-      header: "Aksizë",
-      accessorKey: "excise",
-      cell: (info) => <span>{formatPercent(info.getValue() as number)}</span>,
+      header: t("column.measures"),
+      id: "measures",
+      accessorFn: (row) =>
+        [row.importMeasure, row.exportMeasure].filter(Boolean).join(" / "),
+      size: 110,
+      minSize: 70,
+      enableSorting: false,
+      meta: { label: t("column.measures") } satisfies CustomsColumnMeta,
+      cell: (info) => {
+        const { code, importMeasure, exportMeasure, fileUrl } = info.row.original;
+        if (!importMeasure && !exportMeasure && !fileUrl) return null;
+        return (
+          <div className="flex flex-wrap items-center gap-1">
+            {importMeasure ? (
+              <span
+                className={MEASURE_BADGE_CLASS}
+                title={t("column.importMeasure", { measure: importMeasure })}
+              >
+                {t("column.import")}
+              </span>
+            ) : null}
+            {exportMeasure ? (
+              <span
+                className={MEASURE_BADGE_CLASS}
+                title={t("column.exportMeasure", { measure: exportMeasure })}
+              >
+                {t("column.export")}
+              </span>
+            ) : null}
+            {fileUrl ? (
+              <a
+                href={fileUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={t("column.document", { code })}
+                title={t("column.document", { code })}
+              >
+                <FileText aria-hidden className="h-3.5 w-3.5" />
+              </a>
+            ) : null}
+          </div>
+        );
+      },
     },
     {
-      header: "E vlefshme nga",
+      header: t("column.validFrom"),
+      id: "validFrom",
       accessorKey: "validFrom",
+      size: 120,
+      minSize: 90,
+      meta: { label: t("column.validFrom") } satisfies CustomsColumnMeta,
       cell: (info) => (
-        <span className="text-xs">{formatDate(info.getValue())}</span>
+        <span className="text-xs">{formatDate(info.getValue(), locale)}</span>
       ),
     },
+    ...(hasActions ? [actionsColumn] : []),
   ];
 }
@@ -0,0 +1,100 @@
+/**
+ * Term processing for Albanian tariff descriptions. Index and queries go
+ * through the same pipeline, so "celik", "çelik" and "çeliku" all meet at
+ * the same term.
+ */
+
+const STOP_WORDS = new Set(
+  [
+    "a", "apo", "dhe", "deri", "e", "i", "jo", "ku", "me", "mbi", "nga",
+    "ne", "nen", "ose", "pa", "per", "prej", "qe", "se", "si", "te", "tjera",
+    "tjere", "tij", "saj", "por", "nje",
+  ],
+);
+
+// Folded (ë → e, ç → c) definite/plural endings, longest first.
+const SUFFIXES = [
+  "rave", "ave", "eve", "ive", "rat", "ret", "ite", "ete", "ise",
+  "it", "in", "et", "at", "es", "en", "ra", "ve", "ut", "ur", "ja", "ia",
+  "u", "i", "a", "e",
+];
+
+const MIN_STEM_LENGTH = 3;
+
+/** Lowercases and strips diacritics, folding ë to e and ç to c. */
+export function foldAlbanian(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+export function stemAlbanian(term: string): string {
+  for (const suffix of SUFFIXES) {
+    if (
+      term.length - suffix.length >= MIN_STEM_LENGTH &&
+      term.endsWith(suffix)
+    ) {
+      return term.slice(0, -suffix.length);
+    }
+  }
+  return term;
+}
+
+/** MiniSearch `processTerm`: fold, drop stop words, then stem. */
+export function processAlbanianTerm(term: string): string | null {
+  const folded = foldAlbanian(term);
+  if (!folded || STOP_WORDS.has(folded)) return null;
+  // Codes and quantities ("8703", "1000cm3") are kept verbatim
+  if (/\d/.test(folded)) return folded;
+  return stemAlbanian(folded);
+}
+
+/**
+ * `processTerm` for the translated description fields: folded like Albanian
+ * so "celik"/"čelik" still meet, but never stemmed.
+ */
+export function processPlainTerm(term: string): string | null {
+  const folded = foldAlbanian(term);
+  return folded || null;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Wraps every word of the original (accented) text whose processed form is
+ * one of `matchedTerms`, as reported by MiniSearch for prefix/fuzzy hits.
+ * `processTerm` must be the one the field was indexed with.
+ */
+export function highlightMatchedTerms(
+  text: string,
+  matchedTerms: Iterable<string>,
+  wrap: (word: string) => string,
+  processTerm: (term: string) => string | null = processAlbanianTerm,
+): string {
+  const terms = new Set(matchedTerms);
+  if (terms.size === 0) return escapeHtml(text);
+
+  let result = "";
+  let lastIndex = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const index = match.index ?? 0;
+    const processed = processTerm(word);
+    if (processed && terms.has(processed)) {
+      result += escapeHtml(text.slice(lastIndex, index));
+      result += wrap(escapeHtml(word));
+      lastIndex = index + word.length;
+    }
+  }
+  result += escapeHtml(text.slice(lastIndex));
+  return result;
+}
@@ -0,0 +1,35 @@
+import type { CustomsRecord } from "@/lib/database";
+
+export const MAX_COMPARED_CODES = 4;
+
+export type ComparedCode = {
+  record: CustomsRecord;
+  /** Root first, excluding the record itself. */
+  ancestors: CustomsRecord[];
+};
+
+/** Adds or removes the code; a full tray stays as it is. */
+export function toggleComparedCode(codes: string[], code: string): string[] {
+  if (codes.includes(code)) return codes.filter((item) => item !== code);
+  if (codes.length >= MAX_COMPARED_CODES) return codes;
+  return [...codes, code];
+}
+
+export function valuesDiffer(values: unknown[]): boolean {
+  return new Set(values).size > 1;
+}
+
+/** Ancestor codes every compared code shares, i.e. the common path. */
+export function sharedAncestorCodes(entries: ComparedCode[]): Set<string> {
+  const [first, ...rest] = entries;
+  if (!first) return new Set();
+  return new Set(
+    first.ancestors
+      .map((ancestor) => ancestor.code)
+      .filter((code) =>
+        rest.every((entry) =>
+          entry.ancestors.some((ancestor) => ancestor.code === code),
+        ),
+      ),
+  );
+}
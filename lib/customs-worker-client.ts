@@ -0,0 +1,266 @@
+import type { ComparedCode } from "@/lib/compare";
+import {
+  CustomsDataService,
+  type CodeDetail,
+  type CustomsRecord,
+  type CustomsTreeNode,
+  type InitializationProgress,
+  type InitializeOptions,
+} from "@/lib/database";
+import type { DatasetChanges, WatchlistAlert } from "@/lib/dataset-diff";
+import type { ChapterSummary } from "@/lib/hs-sections";
+import type { CodeSuggestion } from "@/lib/suggest";
+import type {
+  WorkerMethod,
+  WorkerMethods,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerSearchOptions,
+} from "@/lib/worker-protocol";
+
+type PendingCall = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: InitializationProgress) => void;
+  /** The same call on the main thread, for when the worker dies first. */
+  fallback: () => Promise<unknown>;
+};
+
+/**
+ * Main-thread facade over `customs.worker.ts`. Falls back to running
+ * `CustomsDataService` in place when workers are unavailable or fail to load.
+ */
+export class CustomsWorkerClient {
+  private static _worker: Worker | null = null;
+  private static _workerFailed = false;
+  private static _nextId = 1;
+  private static _pending = new Map<number, PendingCall>();
+  private static _activeSearchId: number | null = null;
+
+  private static getWorker(): Worker | null {
+    if (this._workerFailed || typeof Worker === "undefined") return null;
+    if (this._worker) return this._worker;
+
+    try {
+      const worker = new Worker(
+        new URL("./customs.worker.ts", import.meta.url),
+        { type: "module" },
+      );
+      worker.addEventListener("message", (event: MessageEvent<WorkerResponse>) =>
+        this.handleMessage(event.data),
+      );
+      worker.addEventListener("error", (event) => {
+        console.error("Customs worker crashed, falling back to main thread:", event);
+        this.failWorker();
+      });
+      this._worker = worker;
+      return worker;
+    } catch (error) {
+      console.error("Could not start customs worker:", error);
+      this._workerFailed = true;
+      return null;
+    }
+  }
+
+  /** Drops the worker and finishes its in-flight calls on the main thread. */
+  private static failWorker() {
+    this._workerFailed = true;
+    this._worker?.terminate();
+    this._worker = null;
+    this._activeSearchId = null;
+    const pending = Array.from(this._pending.values());
+    this._pending.clear();
+    for (const call of pending) call.fallback().then(call.resolve, call.reject);
+  }
+
+  private static handleMessage(message: WorkerResponse) {
+    const call = this._pending.get(message.id);
+    if (!call) return;
+    switch (message.type) {
+      case "progress":
+        call.onProgress?.(message.progress);
+        return;
+      case "result":
+        call.resolve(message.result);
+        break;
+      case "cancelled":
+        call.resolve(null);
+        break;
+      case "error":
+        call.reject(new Error(message.message));
+        break;
+    }
+    this._pending.delete(message.id);
+  }
+
+  private static call<K extends WorkerMethod>(
+    worker: Worker,
+    method: K,
+    params: WorkerMethods[K]["params"],
+    fallback: () => Promise<WorkerMethods[K]["result"]>,
+    onProgress?: (progress: InitializationProgress) => void,
+  ): { id: number; promise: Promise<WorkerMethods[K]["result"] | null> } {
+    const id = this._nextId++;
+    const promise = new Promise<WorkerMethods[K]["result"] | null>(
+      (resolve, reject) => {
+        this._pending.set(id, {
+          resolve: resolve as (value: unknown) => void,
+          reject,
+          onProgress,
+          fallback,
+        });
+      },
+    );
+    const request = { type: "call", id, method, params } as WorkerRequest;
+    worker.postMessage(request);
+    return { id, promise };
+  }
+
+  /**
+   * Runs a lookup in the worker, or through `fallback` on the main thread
+   * when there is none or it dies. Only searches get cancelled, so a result
+   * always comes.
+   */
+  private static async run<K extends WorkerMethod>(
+    method: K,
+    params: WorkerMethods[K]["params"],
+    fallback: () => Promise<WorkerMethods[K]["result"]>,
+  ): Promise<WorkerMethods[K]["result"]> {
+    const worker = this.getWorker();
+    if (!worker) return fallback();
+    const { promise } = this.call(worker, method, params, fallback);
+    return (await promise) as WorkerMethods[K]["result"];
+  }
+
+  static async initializeData({
+    force = false,
+    onProgress,
+  }: InitializeOptions = {}): Promise<boolean> {
+    const fallback = () => CustomsDataService.initializeData({ force, onProgress });
+    const worker = this.getWorker();
+    if (!worker) return fallback();
+    const { promise } = this.call(
+      worker,
+      "initialize",
+      { force },
+      fallback,
+      onProgress,
+    );
+    return (await promise) ?? false;
+  }
+
+  /**
+   * Runs a search and returns the result tree, or `null` when a newer
+   * search superseded this one before it finished.
+   */
+  static async search(
+    idPrefix: string,
+    descQuery: string,
+    options: WorkerSearchOptions = {},
+  ): Promise<CustomsTreeNode[] | null> {
+    const fallback = async () => {
+      const rows = await CustomsDataService.searchByFields(
+        idPrefix,
+        descQuery,
+        options,
+      );
+      return CustomsDataService.buildTreeFromList(rows);
+    };
+    const worker = this.getWorker();
+    if (!worker) return fallback();
+
+    if (this._activeSearchId !== null) {
+      const cancel: WorkerRequest = { type: "cancel", id: this._activeSearchId };
+      worker.postMessage(cancel);
+    }
+    const { id, promise } = this.call(
+      worker,
+      "search",
+      { idPrefix, descQuery, options },
+      fallback,
+    );
+    this._activeSearchId = id;
+    try {
+      return await promise;
+    } finally {
+      if (this._activeSearchId === id) this._activeSearchId = null;
+    }
+  }
+
+  /** Ranked tariff lines for a product description, best first. */
+  static async suggest(
+    query: string,
+    idPrefix = "",
+    fuzzy: WorkerSearchOptions["fuzzy"] = false,
+  ): Promise<CodeSuggestion[]> {
+    const fallback = () =>
+      CustomsDataService.suggestCodes(query, { idPrefix, fuzzy });
+    const worker = this.getWorker();
+    if (!worker) return fallback();
+    const { promise } = this.call(
+      worker,
+      "suggest",
+      { query, idPrefix, fuzzy },
+      fallback,
+    );
+    return (await promise) ?? [];
+  }
+
+  static async getRecords(codes: string[]): Promise<Map<string, CustomsRecord>> {
+    return this.run("getRecords", { codes }, () =>
+      CustomsDataService.getRecords(codes),
+    );
+  }
+
+  static async getHistory(code: string): Promise<CustomsRecord[]> {
+    return this.run("getHistory", { code }, () =>
+      CustomsDataService.getHistory(code),
+    );
+  }
+
+  static async getCodeDetail(code: string): Promise<CodeDetail | null> {
+    return this.run("getCodeDetail", { code }, () =>
+      CustomsDataService.getCodeDetail(code),
+    );
+  }
+
+  static async getDatasetChanges(): Promise<DatasetChanges | null> {
+    return this.run("getDatasetChanges", {}, () =>
+      CustomsDataService.getDatasetChanges(),
+    );
+  }
+
+  static async acknowledgeDatasetChanges(): Promise<void> {
+    return this.run("acknowledgeDatasetChanges", {}, () =>
+      CustomsDataService.acknowledgeDatasetChanges(),
+    );
+  }
+
+  static async getWatchlistAlerts(): Promise<WatchlistAlert[]> {
+    return this.run("getWatchlistAlerts", {}, () =>
+      CustomsDataService.getWatchlistAlerts(),
+    );
+  }
+
+  static async acknowledgeWatchlistAlerts(): Promise<void> {
+    return this.run("acknowledgeWatchlistAlerts", {}, () =>
+      CustomsDataService.acknowledgeWatchlistAlerts(),
+    );
+  }
+
+  /** Per-chapter counts and rate ranges, summarized off the main thread. */
+  static async getChapterSummaries(): Promise<ChapterSummary[]> {
+    return this.run("getChapterSummaries", {}, () =>
+      CustomsDataService.getChapterSummaries(),
+    );
+  }
+
+  static async getComparedCodes(
+    codes: string[],
+    asOf = "",
+  ): Promise<ComparedCode[]> {
+    return this.run("getComparedCodes", { codes, asOf }, () =>
+      CustomsDataService.getComparedCodes(codes, asOf),
+    );
+  }
+}
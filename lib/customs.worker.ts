@@ -0,0 +1,100 @@
+import { CustomsDataService } from "@/lib/database";
+import type {
+  WorkerMethod,
+  WorkerMethods,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/lib/worker-protocol";
+
+// Data import, the MiniSearch index, search and the panels' lookups all live
+// in this worker so the explorer never waits on Dexie or index builds.
+
+type WorkerScope = {
+  postMessage: (message: WorkerResponse) => void;
+  addEventListener: (
+    type: "message",
+    listener: (event: MessageEvent<WorkerRequest>) => void,
+  ) => void;
+};
+
+type HandlerContext = { id: number; signal: AbortSignal };
+
+const ctx = self as unknown as WorkerScope;
+const controllers = new Map<number, AbortController>();
+
+function post(message: WorkerResponse) {
+  ctx.postMessage(message);
+}
+
+type Handlers = {
+  [K in WorkerMethod]: (
+    params: WorkerMethods[K]["params"],
+    context: HandlerContext,
+  ) => Promise<WorkerMethods[K]["result"]>;
+};
+
+const handlers: Handlers = {
+  initialize: ({ force }, { id }) =>
+    CustomsDataService.initializeData({
+      force,
+      onProgress: (progress) => post({ type: "progress", id, progress }),
+    }),
+  search: async ({ idPrefix, descQuery, options }, { signal }) => {
+    const rows = await CustomsDataService.searchByFields(idPrefix, descQuery, {
+      ...options,
+      signal,
+    });
+    signal.throwIfAborted();
+    return CustomsDataService.buildTreeFromList(rows);
+  },
+  suggest: ({ query, idPrefix, fuzzy }, { signal }) =>
+    CustomsDataService.suggestCodes(query, { idPrefix, fuzzy, signal }),
+  getRecords: ({ codes }) => CustomsDataService.getRecords(codes),
+  getHistory: ({ code }) => CustomsDataService.getHistory(code),
+  getCodeDetail: ({ code }) => CustomsDataService.getCodeDetail(code),
+  getDatasetChanges: () => CustomsDataService.getDatasetChanges(),
+  acknowledgeDatasetChanges: () => CustomsDataService.acknowledgeDatasetChanges(),
+  getWatchlistAlerts: () => CustomsDataService.getWatchlistAlerts(),
+  acknowledgeWatchlistAlerts: () =>
+    CustomsDataService.acknowledgeWatchlistAlerts(),
+  getChapterSummaries: () => CustomsDataService.getChapterSummaries(),
+  getComparedCodes: ({ codes, asOf }) =>
+    CustomsDataService.getComparedCodes(codes, asOf),
+};
+
+ctx.addEventListener("message", async (event) => {
+  const request = event.data;
+  if (request.type === "cancel") {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const { id } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    // The request union ties `method` to `params`; the lookup loses that link
+    const handler = handlers[request.method] as (
+      params: unknown,
+      context: HandlerContext,
+    ) => Promise<WorkerMethods[WorkerMethod]["result"]>;
+    const result = await handler(request.params, {
+      id,
+      signal: controller.signal,
+    });
+    post({ type: "result", id, result });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      post({ type: "cancelled", id });
+    } else {
+      console.error("Customs worker request failed:", error);
+      post({
+        type: "error",
+        id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+});
@@ -1,9 +1,45 @@
 import Dexie, { Table } from "dexie";
-import MiniSearch from "minisearch";
+import MiniSearch, { type Options as MiniSearchOptions } from "minisearch";
+
+import {
+  highlightMatchedTerms,
+  processAlbanianTerm,
+  processPlainTerm,
+} from "@/lib/albanian-text";
+import type { ComparedCode } from "@/lib/compare";
+import {
+  diffDatasets,
+  pickWatchlistAlert,
+  type DatasetChanges,
+  type WatchlistAlert,
+} from "@/lib/dataset-diff";
+import { summarizeChapters, type ChapterSummary } from "@/lib/hs-sections";
+import {
+  buildLinePaths,
+  rankSuggestions,
+  type CodeSuggestion,
+  type DescriptionHit,
+} from "@/lib/suggest";
+import type { MessageKey } from "@/lib/i18n";
+import type { OriginId } from "@/lib/origin";
+import {
+  hasActiveFilters,
+  matchesFilters,
+  type RecordFilters,
+} from "@/lib/record-filters";
+
+/** Languages that may carry a description next to the Albanian one. */
+export const DESCRIPTION_LANGUAGES = ["en", "sr"] as const;
+
+export type DescriptionLanguage = (typeof DESCRIPTION_LANGUAGES)[number];
+
+export type TranslatedDescriptions = Partial<Record<DescriptionLanguage, string>>;
 
 export interface CustomsRecord {
   code: string;
   description: string;
+  /** Optional translations, attached by `trim-tarrifs.mjs`. */
+  descriptions?: TranslatedDescriptions;
   percentage: number;
   cefta: number;
   msa: number;
@@ -13,22 +49,73 @@ export interface CustomsRecord {
   validFrom: string;
   uomCode: string | null;
 
-  // computed / optional runtime fields
-  rootCode?: string | null;
-  highlightedDescription?: string | null;
+  // hierarchy, computed once at import
+  parentCode?: string | null;
+  depth?: number;
+  childCount?: number;
 
-  // tolerated extras if present in source (ignored)
-  fileUrl?: string | null;
+  // supplementary measures (licences, prohibitions) and the source document
   importMeasure?: string | null;
   exportMeasure?: string | null;
+  fileUrl?: string | null;
+
+  // computed / optional runtime fields
+  rootCode?: string | null;
+  highlightedDescription?: string | null;
+  highlightedDescriptions?: TranslatedDescriptions | null;
 }
 
 export type CustomsFlatRow = CustomsRecord;
 
+export interface ShipmentLine {
+  id: string;
+  code: string;
+  /** Amounts as typed, parsed only for the totals; "" when left empty. */
+  value: string;
+  quantity: string;
+}
+
+export interface ShipmentRecord {
+  id?: number;
+  name: string;
+  origin: OriginId;
+  lines: ShipmentLine[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A starred code with the team's note; kept across dataset re-imports. */
+export interface FavoriteRecord {
+  code: string;
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export type CustomsTreeNode = CustomsFlatRow & {
   subRows: CustomsTreeNode[];
 };
 
+export interface MetaEntry<T = unknown> {
+  key: string;
+  value: T;
+}
+
+/** Serialized MiniSearch description index for one dataset version. */
+export interface SearchIndexEntry {
+  version: string;
+  json: string;
+  createdAt: string;
+}
+
+export type CodeDetail = {
+  record: CustomsRecord;
+  /** Root first, excluding the record itself. */
+  ancestors: CustomsRecord[];
+  siblings: CustomsRecord[];
+  children: CustomsRecord[];
+};
+
 export type InitializationPhase =
   | "load-data"
   | "indexing"
@@ -40,18 +127,99 @@ export type InitializationProgress = {
   phase: InitializationPhase;
   loaded: number;
   total: number;
-  message: string;
+  /** Catalog key; `loaded` and `total` fill its placeholders. */
+  message: MessageKey;
+};
+
+export type SearchOptions = {
+  /** ISO date (YYYY-MM-DD); rows show the version valid on that day. */
+  asOf?: string | null;
+  /** Tolerate typos: `true` for the default distance or a length fraction. */
+  fuzzy?: boolean | number;
+  /** Rate ranges and unit; matches come back with their ancestors only. */
+  filters?: RecordFilters | null;
+  /** Only starred codes, again with their ancestors. */
+  favoritesOnly?: boolean;
+  /** Aborts a superseded search between lookups. */
+  signal?: AbortSignal;
 };
 
-type InitializeOptions = {
+export type InitializeOptions = {
   force?: boolean;
   onProgress?: (progress: InitializationProgress) => void;
 };
 
-const MINISEARCH_HIGHLIGHT_TEMPLATE =
-  '<span class="bg-amber-200 rounded px-0.5">$&</span>';
+const wrapHighlight = (word: string) =>
+  `<span class="bg-amber-200 rounded px-0.5">${word}</span>`;
+// Edit distance as a fraction of term length when fuzzy search is on
+const DEFAULT_FUZZY_DISTANCE = 0.2;
+const SUBTREE_BATCH_SIZE = 50;
 const INDEX_CHUNK_SIZE = 2_000;
 
+// Bump when the stored row shape changes so cached rows get re-imported.
+const DATA_FORMAT_VERSION = 3;
+export const DATASET_VERSION = `v${DATA_FORMAT_VERSION}-${
+  process.env.NEXT_PUBLIC_DATASET_VERSION ?? "unknown"
+}`;
+const META_DATASET_VERSION = "datasetVersion";
+const META_DATASET_CHANGES = "datasetChanges";
+const META_WATCHLIST_ALERTS = "watchlistAlerts";
+// Bump when the index options or term processing change.
+const INDEX_FORMAT_VERSION = 2;
+const SEARCH_INDEX_VERSION = `${DATASET_VERSION}-i${INDEX_FORMAT_VERSION}`;
+
+const translatedField = (language: DescriptionLanguage) =>
+  `description_${language}` as const;
+
+type TranslatedField = ReturnType<typeof translatedField>;
+
+type IndexedDescription = Pick<CustomsRecord, "code" | "description"> &
+  Partial<Record<TranslatedField, string>>;
+
+const INDEXED_FIELDS = ["description", ...DESCRIPTION_LANGUAGES.map(translatedField)];
+
+// Serialized indexes must be loaded with the options they were built with.
+const DESCRIPTION_INDEX_OPTIONS: MiniSearchOptions<IndexedDescription> = {
+  fields: INDEXED_FIELDS,
+  storeFields: INDEXED_FIELDS,
+  idField: "code",
+  extractField: (doc, fieldName) =>
+    doc[fieldName as keyof IndexedDescription] || "",
+  // Queries arrive without a field and get the Albanian treatment; its stems
+  // are prefixes of the plain terms, so prefix search still reaches them.
+  processTerm: (term, fieldName) =>
+    fieldName && fieldName !== "description"
+      ? processPlainTerm(term)
+      : processAlbanianTerm(term),
+  searchOptions: {
+    fuzzy: false,
+    prefix: true,
+  },
+};
+
+
+function toIndexedDescription(row: CustomsRecord): IndexedDescription {
+  const doc: IndexedDescription = {
+    code: row.code,
+    description: row.description,
+  };
+  for (const language of DESCRIPTION_LANGUAGES) {
+    const text = row.descriptions?.[language];
+    if (text) doc[translatedField(language)] = text;
+  }
+  return doc;
+}
+
+function normalizeDescriptions(value: unknown): TranslatedDescriptions | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const descriptions: TranslatedDescriptions = {};
+  for (const language of DESCRIPTION_LANGUAGES) {
+    const text = (value as Record<string, unknown>)[language];
+    if (typeof text === "string" && text.trim()) descriptions[language] = text;
+  }
+  return Object.keys(descriptions).length > 0 ? descriptions : undefined;
+}
+
 function compareRecords(a: CustomsRecord, b: CustomsRecord): number {
   const ac = (a.code ?? "").toString();
   const bc = (b.code ?? "").toString();
@@ -64,6 +232,32 @@ function compareRecords(a: CustomsRecord, b: CustomsRecord): number {
   return 0;
 }
 
+function toDateKey(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const dt = new Date(value);
+  return Number.isNaN(dt.getTime()) ? "" : dt.toISOString().slice(0, 10);
+}
+
+function compareVersions(a: CustomsRecord, b: CustomsRecord): number {
+  const ad = toDateKey(a.validFrom);
+  const bd = toDateKey(b.validFrom);
+  if (ad < bd) return -1;
+  if (ad > bd) return 1;
+  return 0;
+}
+
+/** Latest validFrom version per code; later rows win ties. */
+function pickLatestVersions(rows: CustomsRecord[]): CustomsRecord[] {
+  const latest = new Map<string, CustomsRecord>();
+  for (const row of rows) {
+    const current = latest.get(row.code);
+    if (!current || compareVersions(row, current) >= 0) {
+      latest.set(row.code, row);
+    }
+  }
+  return Array.from(latest.values());
+}
+
 function findParentCode(code: string, codeSet: Set<string>): string | null {
   // longest proper prefix that exists in the dataset
   for (let i = code.length - 1; i > 0; i--) {
@@ -73,8 +267,54 @@ function findParentCode(code: string, codeSet: Set<string>): string | null {
   return null;
 }
 
+/**
+ * Stamps each row with its nearest existing ancestor, depth and number of
+ * direct children, so lookups never have to probe code prefixes.
+ */
+function withHierarchy(rows: CustomsRecord[]): CustomsRecord[] {
+  const codeSet = new Set(rows.map((row) => row.code));
+  const parentByCode = new Map<string, string | null>();
+  const childCounts = new Map<string, number>();
+  for (const row of rows) {
+    const parentCode = findParentCode(row.code, codeSet);
+    parentByCode.set(row.code, parentCode);
+    if (parentCode) {
+      childCounts.set(parentCode, (childCounts.get(parentCode) ?? 0) + 1);
+    }
+  }
+
+  const depthByCode = new Map<string, number>();
+  const depthOf = (code: string): number => {
+    const known = depthByCode.get(code);
+    if (known !== undefined) return known;
+    const parentCode = parentByCode.get(code);
+    const depth = parentCode ? depthOf(parentCode) + 1 : 0;
+    depthByCode.set(code, depth);
+    return depth;
+  };
+
+  return rows.map((row) => ({
+    ...row,
+    parentCode: parentByCode.get(row.code) ?? null,
+    depth: depthOf(row.code),
+    childCount: childCounts.get(row.code) ?? 0,
+  }));
+}
+
+/** Every proper prefix of `code`, shortest first. */
+function codePrefixes(code: string): string[] {
+  const prefixes: string[] = [];
+  for (let i = 1; i < code.length; i++) prefixes.push(code.slice(0, i));
+  return prefixes;
+}
+
 export class CustomsDatabase extends Dexie {
   public customs!: Table<CustomsRecord, string>;
+  public customsHistory!: Table<CustomsRecord, [string, string]>;
+  public shipments!: Table<ShipmentRecord, number>;
+  public meta!: Table<MetaEntry, string>;
+  public searchIndexes!: Table<SearchIndexEntry, string>;
+  public favorites!: Table<FavoriteRecord, string>;
 
   constructor() {
     super("CustomsDatabaseCodesV1");
@@ -82,13 +322,37 @@ export class CustomsDatabase extends Dexie {
       customs:
         "code, description, percentage, cefta, msa, trmtl, tvsh, excise, validFrom, uomCode",
     });
+    this.version(2).stores({
+      shipments: "++id, name, updatedAt",
+    });
+    this.version(3).stores({
+      meta: "key",
+    });
+    this.version(4).stores({
+      customsHistory: "[code+validFrom], code, validFrom",
+    });
+    this.version(5).stores({
+      searchIndexes: "version",
+    });
+    this.version(6).stores({
+      customs:
+        "code, description, percentage, cefta, msa, trmtl, tvsh, excise, validFrom, uomCode, parentCode, depth",
+    });
+    this.version(7).stores({
+      favorites: "code, updatedAt",
+    });
   }
 }
 
 let dbInstance: CustomsDatabase | null = null;
 
-function getDb(): CustomsDatabase {
-  if (typeof window === "undefined") {
+/** True in the browser and in its workers, false during prerendering. */
+function hasIndexedDb(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export function getDb(): CustomsDatabase {
+  if (!hasIndexedDb()) {
     throw new Error("Customs database is only available in the browser.");
   }
   if (!dbInstance) {
@@ -97,28 +361,34 @@ function getDb(): CustomsDatabase {
   return dbInstance;
 }
 
-type MiniSearchHit = { id: string; highlight?: string | null };
+type MiniSearchHit = {
+  id: string;
+  highlight?: string | null;
+  highlights?: TranslatedDescriptions | null;
+};
 
 export class CustomsDataService {
-  private static _descriptionIndex: MiniSearch | null = null;
+  private static _descriptionIndex: Promise<MiniSearch<IndexedDescription>> | null =
+    null;
+  private static _linePaths: Promise<CustomsRecord[][]> | null = null;
 
   static async initializeData({
     force = false,
     onProgress,
   }: InitializeOptions = {}): Promise<boolean> {
-    if (typeof window === "undefined") return false;
-
-    const formatNumber = (v: number) => v.toLocaleString(undefined);
+    if (!hasIndexedDb()) return false;
 
     try {
       const db = getDb();
       const existing = await db.customs.count();
-      if (!force && existing > 0) {
+      const storedVersion = await this.getMeta<string>(META_DATASET_VERSION);
+      if (!force && existing > 0 && storedVersion === DATASET_VERSION) {
+        await this.ensureDescriptionIndex(onProgress);
         onProgress?.({
           phase: "cached",
           loaded: existing,
           total: existing,
-          message: `U gjetën ${formatNumber(existing)} rreshta ekzistues.`,
+          message: "progress.cached",
         });
         return false;
       }
@@ -127,7 +397,7 @@ export class CustomsDataService {
         phase: "load-data",
         loaded: 0,
         total: 0,
-        message: "Duke ngarkuar të dhënat e tarifave...",
+        message: existing > 0 ? "progress.updating" : "progress.loading",
       });
 
       const data = (await import("@/data/tarrifs.json"))
@@ -138,13 +408,14 @@ export class CustomsDataService {
         phase: "indexing",
         loaded: 0,
         total,
-        message: `Duke indeksuar 0 / ${formatNumber(total)} rreshta...`,
+        message: "progress.indexing",
       });
 
       // Normalize
       const normalized: CustomsRecord[] = data.map((d) => ({
         code: d.code == null ? "" : String(d.code),
         description: d.description == null ? "" : String(d.description),
+        descriptions: normalizeDescriptions(d.descriptions),
         percentage: Number.isFinite(Number(d.percentage))
           ? Number(d.percentage)
           : 0,
@@ -160,31 +431,77 @@ export class CustomsDataService {
         exportMeasure: d.exportMeasure ?? null,
       }));
 
-      await db.transaction("rw", db.customs, async () => {
+      // `customs` holds the current version of each code, `customsHistory`
+      // every validFrom version for timelines and "as of" lookups.
+      const latest = withHierarchy(pickLatestVersions(normalized));
+
+      // Snapshot the cached release so the "what changed" view can diff it.
+      const previous =
+        existing > 0 ? await db.customs.toArray() : ([] as CustomsRecord[]);
+
+      const tables = [
+        db.customs,
+        db.customsHistory,
+        db.meta,
+        db.searchIndexes,
+        db.favorites,
+      ];
+      await db.transaction("rw", tables, async () => {
         await db.customs.clear();
+        await db.customsHistory.clear();
+        await db.searchIndexes.clear();
+        await db.customs.bulkAdd(latest);
         for (let start = 0; start < normalized.length; start += INDEX_CHUNK_SIZE) {
           const chunk = normalized.slice(start, start + INDEX_CHUNK_SIZE);
-          await db.customs.bulkAdd(chunk);
+          await db.customsHistory.bulkPut(chunk);
           const loaded = Math.min(start + chunk.length, normalized.length);
           onProgress?.({
             phase: "indexing",
             loaded,
             total,
-            message: `Duke indeksuar ${formatNumber(loaded)} / ${formatNumber(
-              total,
-            )} rreshta...`,
+            message: "progress.indexing",
           });
         }
+
+        const changes =
+          previous.length > 0
+            ? diffDatasets(previous, latest, {
+              fromVersion: storedVersion ?? null,
+              toVersion: DATASET_VERSION,
+            })
+            : null;
+        // A format-only re-import (same rows, new shape) has nothing to report
+        if (
+          changes &&
+          changes.added.length + changes.removed.length + changes.changed.length > 0
+        ) {
+          await db.meta.put({ key: META_DATASET_CHANGES, value: changes });
+
+          // Starred codes are the watchlist; alerts pile up until acknowledged
+          const watched = new Set(await db.favorites.toCollection().primaryKeys());
+          const alert = pickWatchlistAlert(changes, watched);
+          if (alert) {
+            const pending =
+              await this.getMeta<WatchlistAlert[]>(META_WATCHLIST_ALERTS);
+            await db.meta.put({
+              key: META_WATCHLIST_ALERTS,
+              value: [...(pending ?? []), alert],
+            });
+          }
+        }
+        await db.meta.put({ key: META_DATASET_VERSION, value: DATASET_VERSION });
       });
 
       // Rebuild index after data load
-      await this.ensureDescriptionIndex();
+      this._descriptionIndex = null;
+      this._linePaths = null;
+      await this.ensureDescriptionIndex(onProgress);
 
       onProgress?.({
         phase: "done",
         loaded: total,
         total,
-        message: "Indeksimi i të dhënave u përfundua.",
+        message: "progress.done",
       });
 
       return true;
@@ -194,35 +511,139 @@ export class CustomsDataService {
         phase: "error",
         loaded: 0,
         total: 0,
-        message: "Indeksimi dështoi. Kontrolloni konsolën për detaje.",
+        message: "progress.failed",
       });
       return false;
     }
   }
 
-  private static async ensureDescriptionIndex(): Promise<MiniSearch> {
-    if (this._descriptionIndex) return this._descriptionIndex;
-
+  private static async getMeta<T>(key: string): Promise<T | undefined> {
     const db = getDb();
-    const data = await db.customs.orderBy("code").toArray();
+    const entry = await db.meta.get(key);
+    return entry?.value as T | undefined;
+  }
 
-    const index = new MiniSearch({
-      fields: ["description"],
-      storeFields: ["description"],
-      idField: "code",
-      extractField: (doc, fieldName) => doc[fieldName] || "",
-      searchOptions: {
-        fuzzy: false,
-        prefix: true,
-      },
+  static async getDatasetChanges(): Promise<DatasetChanges | null> {
+    try {
+      return (await this.getMeta<DatasetChanges>(META_DATASET_CHANGES)) ?? null;
+    } catch (error) {
+      console.error("Error fetching dataset changes:", error);
+      return null;
+    }
+  }
+
+  static async acknowledgeDatasetChanges(): Promise<void> {
+    const db = getDb();
+    const changes = await this.getMeta<DatasetChanges>(META_DATASET_CHANGES);
+    if (!changes) return;
+    await db.meta.put({
+      key: META_DATASET_CHANGES,
+      value: { ...changes, acknowledged: true },
     });
+  }
+
+  static async getWatchlistAlerts(): Promise<WatchlistAlert[]> {
+    try {
+      return (await this.getMeta<WatchlistAlert[]>(META_WATCHLIST_ALERTS)) ?? [];
+    } catch (error) {
+      console.error("Error fetching watchlist alerts:", error);
+      return [];
+    }
+  }
+
+  static async acknowledgeWatchlistAlerts(): Promise<void> {
+    const db = getDb();
+    await db.meta.delete(META_WATCHLIST_ALERTS);
+  }
+
+  /** Shares one load/build between concurrent callers. */
+  private static ensureDescriptionIndex(
+    onProgress?: InitializeOptions["onProgress"],
+  ): Promise<MiniSearch<IndexedDescription>> {
+    if (!this._descriptionIndex) {
+      this._descriptionIndex = this.loadDescriptionIndex(onProgress).catch(
+        (error) => {
+          this._descriptionIndex = null;
+          throw error;
+        },
+      );
+    }
+    return this._descriptionIndex;
+  }
+
+  /** Tariff line paths for suggestions, loaded once per dataset. */
+  private static ensureLinePaths(): Promise<CustomsRecord[][]> {
+    if (!this._linePaths) {
+      this._linePaths = getDb()
+        .customs.toArray()
+        .then(buildLinePaths)
+        .catch((error) => {
+          this._linePaths = null;
+          throw error;
+        });
+    }
+    return this._linePaths;
+  }
+
+  private static async loadDescriptionIndex(
+    onProgress?: InitializeOptions["onProgress"],
+  ): Promise<MiniSearch<IndexedDescription>> {
+    const db = getDb();
+    const stored = await db.searchIndexes.get(SEARCH_INDEX_VERSION);
+    if (stored) {
+      onProgress?.({
+        phase: "indexing",
+        loaded: 0,
+        total: 0,
+        message: "progress.loadingIndex",
+      });
+      try {
+        return await MiniSearch.loadJSONAsync(
+          stored.json,
+          DESCRIPTION_INDEX_OPTIONS,
+        );
+      } catch (error) {
+        console.warn("Stored search index is unreadable, rebuilding:", error);
+      }
+    }
+
+    const index = await this.buildDescriptionIndex(onProgress);
+    try {
+      await db.transaction("rw", db.searchIndexes, async () => {
+        await db.searchIndexes.clear();
+        await db.searchIndexes.put({
+          version: SEARCH_INDEX_VERSION,
+          json: JSON.stringify(index),
+          createdAt: new Date().toISOString(),
+        });
+      });
+    } catch (error) {
+      // Search still works from memory; the next load just rebuilds
+      console.warn("Could not persist search index:", error);
+    }
+    return index;
+  }
+
+  private static async buildDescriptionIndex(
+    onProgress?: InitializeOptions["onProgress"],
+  ): Promise<MiniSearch<IndexedDescription>> {
+    const db = getDb();
+    const data = await db.customs.orderBy("code").toArray();
+    const total = data.length;
+    const index = new MiniSearch(DESCRIPTION_INDEX_OPTIONS);
 
-    index.addAll(data.map((row) => ({
-      code: row.code,
-      description: row.description,
-    })));
+    for (let start = 0; start < total; start += INDEX_CHUNK_SIZE) {
+      const chunk = data.slice(start, start + INDEX_CHUNK_SIZE);
+      index.addAll(chunk.map(toIndexedDescription));
+      const loaded = Math.min(start + chunk.length, total);
+      onProgress?.({
+        phase: "indexing",
+        loaded,
+        total,
+        message: "progress.buildingIndex",
+      });
+    }
 
-    this._descriptionIndex = index;
     return index;
   }
 
@@ -237,6 +658,84 @@ export class CustomsDataService {
     }
   }
 
+  static async getChapterSummaries(): Promise<ChapterSummary[]> {
+    try {
+      const db = getDb();
+      return summarizeChapters(await db.customs.toArray());
+    } catch (error) {
+      console.error("Error summarizing chapters:", error);
+      return [];
+    }
+  }
+
+  static async getRecords(codes: string[]): Promise<Map<string, CustomsRecord>> {
+    const records = new Map<string, CustomsRecord>();
+    if (codes.length === 0) return records;
+    try {
+      const db = getDb();
+      const unique = Array.from(new Set(codes));
+      const rows = await db.customs.bulkGet(unique);
+      rows.forEach((row) => {
+        if (row) records.set(row.code, { ...row });
+      });
+    } catch (error) {
+      console.error("Error fetching records:", { codes, error });
+    }
+    return records;
+  }
+
+  static async getHistory(code: string): Promise<CustomsRecord[]> {
+    try {
+      const db = getDb();
+      const versions = await db.customsHistory.where("code").equals(code).toArray();
+      return versions.sort(compareVersions);
+    } catch (error) {
+      console.error("Error fetching history:", { code, error });
+      return [];
+    }
+  }
+
+  /**
+   * Swaps each row for the version that was valid on `asOf`, dropping codes
+   * that had no version yet. Search highlights carry over to the old version.
+   */
+  private static async applyAsOf(
+    rows: CustomsFlatRow[],
+    asOf: string,
+  ): Promise<CustomsFlatRow[]> {
+    const db = getDb();
+    const cutoff = toDateKey(asOf);
+    if (!cutoff) return rows;
+
+    const versions = await db.customsHistory
+      .where("code")
+      .anyOf(rows.map((row) => row.code))
+      .toArray();
+    const validByCode = new Map<string, CustomsRecord>();
+    for (const version of versions) {
+      if (toDateKey(version.validFrom) > cutoff) continue;
+      const current = validByCode.get(version.code);
+      if (!current || compareVersions(version, current) >= 0) {
+        validByCode.set(version.code, version);
+      }
+    }
+
+    const result: CustomsFlatRow[] = [];
+    for (const row of rows) {
+      const version = validByCode.get(row.code);
+      if (!version) continue;
+      result.push({
+        ...version,
+        parentCode: row.parentCode,
+        depth: row.depth,
+        childCount: row.childCount,
+        highlightedDescription: row.highlightedDescription,
+        highlightedDescriptions: row.highlightedDescriptions,
+      });
+    }
+    return result;
+  }
+
   static buildTreeFromList(list: CustomsFlatRow[]) {
     const byCode = new Map<string, CustomsTreeNode>();
     const presentCodes = new Set(list.map((r) => r.code));
@@ -248,7 +747,11 @@ export class CustomsDataService {
 
     for (const row of list) {
       const node = byCode.get(row.code)!;
-      const parentCode = findParentCode(row.code, presentCodes);
+      // Fall back to the nearest listed ancestor when the direct parent is absent
+      const parentCode =
+        row.parentCode && presentCodes.has(row.parentCode)
+          ? row.parentCode
+          : findParentCode(row.code, presentCodes);
       if (parentCode && byCode.has(parentCode)) {
         byCode.get(parentCode)!.subRows.push(node);
       } else {
@@ -263,53 +766,101 @@ export class CustomsDataService {
     return roots;
   }
 
-  private static async findExistingParent(db: CustomsDatabase, code: string): Promise<string | null> {
-    for (let i = code.length - 1; i > 0; i--) {
-      const cand = code.slice(0, i);
-      const rec = await db.customs.get(cand);
-      if (rec) return cand;
-    }
-    return null;
-  }
+  /** Existing ancestors of `record`, root first, from one bulk lookup. */
+  private static async getAncestors(
+    db: CustomsDatabase,
+    record: CustomsRecord,
+  ): Promise<CustomsRecord[]> {
+    if (!record.parentCode) return [];
+    const candidates = await db.customs.bulkGet(codePrefixes(record.code));
+    const byCode = new Map<string, CustomsRecord>();
+    candidates.forEach((row) => {
+      if (row) byCode.set(row.code, row);
+    });
 
-  private static async getLowestExistingAncestor(db: CustomsDatabase, prefix: string): Promise<string | null> {
-    let curr: string | null = prefix;
-    while (curr && curr.length > 0) {
-      const rec = await db.customs.get(curr);
-      if (rec) return curr;
-      curr = await this.findExistingParent(db, curr);
+    const ancestors: CustomsRecord[] = [];
+    let parentCode: string | null | undefined = record.parentCode;
+    while (parentCode) {
+      const parent = byCode.get(parentCode);
+      if (!parent) break;
+      ancestors.unshift(parent);
+      parentCode = parent.parentCode;
     }
-    return null;
+    return ancestors;
   }
 
-  private static async getPath(db: CustomsDatabase, target: string): Promise<string[]> {
-    const path: string[] = [target];
-    let curr = target;
-    while (true) {
-      const parent = await this.findExistingParent(db, curr);
-      if (!parent) break;
-      path.unshift(parent);
-      curr = parent;
+  /** The record for `prefix`, or for its longest existing prefix. */
+  private static async getLowestExistingAncestor(
+    db: CustomsDatabase,
+    prefix: string,
+  ): Promise<CustomsRecord | null> {
+    const candidates = await db.customs.bulkGet([...codePrefixes(prefix), prefix]);
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const row = candidates[i];
+      if (row) return row;
     }
-    return path;
+    return null;
   }
 
   private static async getDirectChildrenRecords(
     db: CustomsDatabase,
     parentCode: string,
   ): Promise<CustomsRecord[]> {
-    const candidates = await db.customs.where("code").startsWith(parentCode).toArray();
-    if (candidates.length === 0) return [];
+    const children = await db.customs.where("parentCode").equals(parentCode).toArray();
+    return children.sort(compareRecords);
+  }
 
-    const codeSet = new Set(candidates.map((record) => record.code));
-    const children = candidates.filter((record) => {
-      if (record.code === parentCode) return false;
-      return findParentCode(record.code, codeSet) === parentCode;
-    });
+  static async getCodeDetail(code: string): Promise<CodeDetail | null> {
+    try {
+      const db = getDb();
+      const record = await db.customs.get(code);
+      if (!record) return null;
+
+      const ancestors = await this.getAncestors(db, record);
+      const siblingPool = record.parentCode
+        ? await this.getDirectChildrenRecords(db, record.parentCode)
+        : await this.getRootRecords(db);
+      const siblings = siblingPool.filter((row) => row.code !== code);
+      const children = record.childCount
+        ? await this.getDirectChildrenRecords(db, code)
+        : [];
+
+      return { record: { ...record }, ancestors, siblings, children };
+    } catch (error) {
+      console.error("Error fetching code detail:", { code, error });
+      return null;
+    }
+  }
+
+  /**
+   * Records with their ancestors, in the order asked for. With `asOf`, the
+   * rates are the ones valid on that date and codes not yet in force drop out.
+   */
+  static async getComparedCodes(
+    codes: string[],
+    asOf = "",
+  ): Promise<ComparedCode[]> {
+    try {
+      const db = getDb();
+      const found = (await db.customs.bulkGet(codes)).filter(
+        (row): row is CustomsRecord => Boolean(row),
+      );
+      const records = asOf ? await this.applyAsOf(found, asOf) : found;
+      return Promise.all(
+        records.map(async (record) => ({
+          record,
+          ancestors: await this.getAncestors(db, record),
+        })),
+      );
+    } catch (error) {
+      console.error("Error fetching compared codes:", { codes, error });
+      return [];
+    }
+  }
 
-    return children
-      .map((record) => ({ ...record }))
-      .sort(compareRecords);
+  private static async getRootRecords(db: CustomsDatabase): Promise<CustomsRecord[]> {
+    const roots = await db.customs.where("depth").equals(0).toArray();
+    return roots.sort(compareRecords);
   }
 
   private static async getSubtreeWithAncestors(target: string): Promise<CustomsFlatRow[]> {
@@ -318,7 +869,7 @@ export class CustomsDataService {
     if (subtree.length === 0) return [];
 
     const lca = await this.getLowestExistingAncestor(db, target);
-    const pathToLca = lca ? await this.getPath(db, lca) : [];
+    const pathToLca = lca ? [...(await this.getAncestors(db, lca)), lca] : [];
     const allRecords = new Map<string, CustomsRecord>();
     const addRecord = (record: CustomsRecord | null | undefined) => {
       if (!record) return;
@@ -327,19 +878,18 @@ export class CustomsDataService {
     };
 
     subtree.forEach((record) => addRecord(record));
-
-    const ancestorRecords = await Promise.all(pathToLca.map((code) => db.customs.get(code)));
-    ancestorRecords.forEach((record) => addRecord(record));
-
-    const parentsForSiblings = new Set<string>();
-    for (const code of pathToLca) {
-      const parent = await this.findExistingParent(db, code);
-      if (parent) parentsForSiblings.add(parent);
-    }
-
-    for (const parentCode of parentsForSiblings) {
-      const directChildren = await this.getDirectChildrenRecords(db, parentCode);
-      directChildren.forEach((record) => addRecord(record));
+    pathToLca.forEach((record) => addRecord(record));
+
+    // Siblings of every node on the path, in a single indexed query
+    const parentsForSiblings = pathToLca
+      .map((record) => record.parentCode)
+      .filter((code): code is string => Boolean(code));
+    if (parentsForSiblings.length > 0) {
+      const siblings = await db.customs
+        .where("parentCode")
+        .anyOf(parentsForSiblings)
+        .toArray();
+      siblings.forEach((record) => addRecord(record));
     }
 
     return Array.from(allRecords.values()).sort(compareRecords);
@@ -348,13 +898,21 @@ export class CustomsDataService {
   private static async getSubtreesForHits(
     codes: string[],
     hits: MiniSearchHit[],
+    signal?: AbortSignal,
   ): Promise<CustomsFlatRow[]> {
-    const highlightMap = new Map(hits.map((h) => [h.id, h.highlight || null]));
+    const hitMap = new Map(hits.map((hit) => [hit.id, hit]));
     const allRecords = new Map<string, CustomsRecord>();
 
-    const subtrees = await Promise.all(
-      codes.map((code) => this.getSubtreeWithAncestors(code)),
-    );
+    const subtrees: CustomsFlatRow[][] = [];
+    for (let start = 0; start < codes.length; start += SUBTREE_BATCH_SIZE) {
+      signal?.throwIfAborted();
+      const batch = codes.slice(start, start + SUBTREE_BATCH_SIZE);
+      subtrees.push(
+        ...(await Promise.all(
+          batch.map((code) => this.getSubtreeWithAncestors(code)),
+        )),
+      );
+    }
 
     for (const subtree of subtrees) {
       for (const record of subtree) {
@@ -365,8 +923,9 @@ export class CustomsDataService {
     }
 
     for (const [code, record] of allRecords) {
-      const hl = highlightMap.get(code);
-      if (hl) record.highlightedDescription = hl;
+      const hit = hitMap.get(code);
+      if (hit?.highlight) record.highlightedDescription = hit.highlight;
+      if (hit?.highlights) record.highlightedDescriptions = hit.highlights;
     }
 
     return Array.from(allRecords.values()).sort(compareRecords);
@@ -374,61 +933,236 @@ export class CustomsDataService {
 
   private static async searchByDescriptionHits(
     query: string,
+    fuzzy: SearchOptions["fuzzy"] = false,
   ): Promise<MiniSearchHit[]> {
     const index = await this.ensureDescriptionIndex();
     const results = index.search(query, {
       prefix: true,
-      fuzzy: false,
+      fuzzy: fuzzy === true ? DEFAULT_FUZZY_DISTANCE : fuzzy,
     });
 
+    // `match` lists the processed index terms per field, so map them back
+    // onto the original words instead of regex-matching the raw text.
     return results.map((result) => {
-      let highlight: string | null = null;
-      if (result.terms) {
-        let description = result.description || "";
-        result.terms.forEach((term) => {
-          const regex = new RegExp(`\\b${term}\\b`, "gi");
-          description = description.replace(regex, MINISEARCH_HIGHLIGHT_TEMPLATE);
-        });
-
-        highlight = description;
+      const termsIn = (field: string) =>
+        Object.entries(result.match)
+          .filter(([, fields]) => fields.includes(field))
+          .map(([term]) => term);
+
+      const highlights: TranslatedDescriptions = {};
+      for (const language of DESCRIPTION_LANGUAGES) {
+        const field = translatedField(language);
+        const text: string | undefined = result[field];
+        const terms = termsIn(field);
+        if (text && terms.length > 0) {
+          highlights[language] = highlightMatchedTerms(
+            text,
+            terms,
+            wrapHighlight,
+            processPlainTerm,
+          );
+        }
       }
-      return { id: result.id, highlight };
+
+      return {
+        id: result.id,
+        highlight: result.terms.length
+          ? highlightMatchedTerms(
+            result.description || "",
+            termsIn("description"),
+            wrapHighlight,
+          )
+          : null,
+        highlights: Object.keys(highlights).length > 0 ? highlights : null,
+      };
     });
   }
 
+  /**
+   * Ranked tariff lines for a free-text product description, scored from the
+   * description index and the matching headings above each line.
+   */
+  static async suggestCodes(
+    query: string,
+    { idPrefix = "", fuzzy, signal }: SearchOptions & { idPrefix?: string } = {},
+  ): Promise<CodeSuggestion[]> {
+    const trimmed = query.trim();
+    if (!trimmed || !hasIndexedDb()) return [];
+    try {
+      const index = await this.ensureDescriptionIndex();
+      const results = index.search(trimmed, {
+        prefix: true,
+        fuzzy: fuzzy === true ? DEFAULT_FUZZY_DISTANCE : fuzzy,
+      });
+      signal?.throwIfAborted();
+      const hits = new Map<string, DescriptionHit>(
+        results.map((result) => [
+          String(result.id),
+          { score: result.score, terms: result.queryTerms },
+        ]),
+      );
+      const tokenize: (text: string) => string[] = MiniSearch.getDefault("tokenize");
+      const queryTerms = new Set(
+        tokenize(trimmed).map((term) => processAlbanianTerm(term)).filter(Boolean),
+      );
+
+      const linePaths = await this.ensureLinePaths();
+      signal?.throwIfAborted();
+      return rankSuggestions(linePaths, hits, {
+        queryTermCount: queryTerms.size,
+        codePrefix: idPrefix.trim(),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Code suggestions failed:", { query, error });
+      return [];
+    }
+  }
+
   static async searchByFields(
     idPrefix = "",
     descQuery = "",
+    options: SearchOptions = {},
+  ): Promise<CustomsFlatRow[]> {
+    if (!hasIndexedDb()) return [];
+    try {
+      if (hasActiveFilters(options.filters) || options.favoritesOnly) {
+        return await this.searchFiltered(idPrefix, descQuery, options);
+      }
+      const rows = await this.searchCurrent(idPrefix, descQuery, options);
+      options.signal?.throwIfAborted();
+      return options.asOf ? await this.applyAsOf(rows, options.asOf) : rows;
+    } catch (error) {
+      // Let callers tell a superseded search apart from a failed one
+      if (options.signal?.aborted) throw error;
+      console.error("Search failed:", { idPrefix, descQuery, options, error });
+      return [];
+    }
+  }
+
+  private static async searchCurrent(
+    idPrefix: string,
+    descQuery: string,
+    { fuzzy, signal }: SearchOptions,
   ): Promise<CustomsFlatRow[]> {
-    if (typeof window === "undefined") return [];
     const codePrefix = (idPrefix ?? "").trim();
     const descQueryTrimmed = (descQuery ?? "").trim();
     const hasCodeQuery = codePrefix.length > 0;
     const hasDescQuery = descQueryTrimmed.length > 0;
-    try {
-      if (!hasCodeQuery && !hasDescQuery) {
-        return await this.getAllData();
-      }
+    if (!hasCodeQuery && !hasDescQuery) {
+      return await this.getAllData();
+    }
 
-      if (!hasDescQuery) {
-        return await this.getSubtreeWithAncestors(codePrefix);
-      }
+    if (!hasDescQuery) {
+      return await this.getSubtreeWithAncestors(codePrefix);
+    }
+
+    const hits = await this.searchByDescriptionHits(descQueryTrimmed, fuzzy);
+    signal?.throwIfAborted();
+    const relevantHits = hasCodeQuery
+      ? hits.filter((h) => h.id.startsWith(codePrefix))
+      : hits;
+
+    if (relevantHits.length === 0) {
+      return hasCodeQuery
+        ? await this.getSubtreeWithAncestors(codePrefix)
+        : [];
+    }
+
+    return await this.getSubtreesForHits(
+      relevantHits.map((h) => h.id),
+      relevantHits,
+      signal,
+    );
+  }
 
-      const hits = await this.searchByDescriptionHits(descQueryTrimmed);
-      const relevantHits = hasCodeQuery
-        ? hits.filter((h) => h.id.startsWith(codePrefix))
-        : hits;
+  /**
+   * Narrows the prefix / description candidates to favorites and to tariff
+   * lines within the filter ranges (judged on the as-of rates when a date is
+   * set), then adds the ancestors of every match for context. Headings carry
+   * placeholder rates, so they only appear as ancestors of matching lines.
+   */
+  private static async searchFiltered(
+    idPrefix: string,
+    descQuery: string,
+    { asOf, fuzzy, filters, favoritesOnly, signal }: SearchOptions,
+  ): Promise<CustomsFlatRow[]> {
+    const db = getDb();
+    const codePrefix = (idPrefix ?? "").trim();
+    const descQueryTrimmed = (descQuery ?? "").trim();
 
-      if (relevantHits.length === 0) {
-        return hasCodeQuery
-          ? await this.getSubtreeWithAncestors(codePrefix)
-          : [];
+    let candidates: CustomsRecord[];
+    if (favoritesOnly) {
+      const codes = (await db.favorites.toCollection().primaryKeys())
+        .filter((code) => code.startsWith(codePrefix));
+      candidates = (await db.customs.bulkGet(codes)).filter(
+        (record): record is CustomsRecord => Boolean(record),
+      );
+    } else {
+      candidates = codePrefix
+        ? await db.customs.where("code").startsWith(codePrefix).toArray()
+        : await db.customs.toArray();
+    }
+    signal?.throwIfAborted();
+
+    if (descQueryTrimmed) {
+      // A description hit brings its whole subtree into play
+      const hits = await this.searchByDescriptionHits(descQueryTrimmed, fuzzy);
+      signal?.throwIfAborted();
+      const hitMap = new Map(hits.map((hit) => [hit.id, hit]));
+      candidates = candidates.filter((record) =>
+        hitMap.has(record.code) ||
+        codePrefixes(record.code).some((prefix) => hitMap.has(prefix))
+      );
+      for (const record of candidates) {
+        const hit = hitMap.get(record.code);
+        if (hit?.highlight) record.highlightedDescription = hit.highlight;
+        if (hit?.highlights) record.highlightedDescriptions = hit.highlights;
       }
+    }
 
-      return await this.getSubtreesForHits(relevantHits.map((h) => h.id), relevantHits);
-    } catch (error) {
-      console.error("Search failed:", { idPrefix, descQuery, error });
-      return [];
+    if (asOf) candidates = await this.applyAsOf(candidates, asOf);
+    const matches = hasActiveFilters(filters)
+      ? candidates.filter(
+        (record) => !record.childCount && matchesFilters(record, filters),
+      )
+      : candidates;
+    if (matches.length === 0) return [];
+
+    // Ancestors that were candidates keep their highlights and as-of rates
+    const candidatesByCode = new Map(
+      candidates.map((record) => [record.code, record]),
+    );
+    const allRecords = new Map(matches.map((record) => [record.code, record]));
+    const candidateAncestors: CustomsRecord[] = [];
+    const loadedAncestors: CustomsRecord[] = [];
+    let pending = matches;
+    while (pending.length > 0) {
+      signal?.throwIfAborted();
+      const parentCodes = new Set<string>();
+      for (const record of pending) {
+        if (record.parentCode && !allRecords.has(record.parentCode)) {
+          parentCodes.add(record.parentCode);
+        }
+      }
+      if (parentCodes.size === 0) break;
+      const reused = [...parentCodes]
+        .map((code) => candidatesByCode.get(code))
+        .filter((record): record is CustomsRecord => Boolean(record));
+      const missing = [...parentCodes].filter((code) => !candidatesByCode.has(code));
+      const loaded = (await db.customs.bulkGet(missing)).filter(
+        (record): record is CustomsRecord => Boolean(record),
+      );
+      candidateAncestors.push(...reused);
+      loadedAncestors.push(...loaded);
+      const parents = [...reused, ...loaded];
+      parents.forEach((record) => allRecords.set(record.code, record));
+      pending = parents;
     }
+
+    const context = asOf
+      ? await this.applyAsOf(loadedAncestors, asOf)
+      : loadedAncestors;
+    return [...matches, ...candidateAncestors, ...context].sort(compareRecords);
   }
 }
@@ -0,0 +1,116 @@
+import type { CustomsRecord } from "@/lib/database";
+
+export const RATE_FIELDS = [
+  "percentage",
+  "cefta",
+  "msa",
+  "trmtl",
+  "tvsh",
+  "excise",
+] as const;
+
+export type RateField = (typeof RATE_FIELDS)[number];
+
+export type DatasetDiffEntry = {
+  code: string;
+  description: string;
+};
+
+export type RateChange = {
+  field: RateField;
+  before: number;
+  after: number;
+};
+
+export type DatasetRateChangeEntry = DatasetDiffEntry & {
+  changes: RateChange[];
+};
+
+export type DatasetChanges = {
+  fromVersion: string | null;
+  toVersion: string;
+  createdAt: string;
+  acknowledged: boolean;
+  added: DatasetDiffEntry[];
+  removed: DatasetDiffEntry[];
+  changed: DatasetRateChangeEntry[];
+};
+
+export function diffRates(
+  before: Pick<CustomsRecord, RateField>,
+  after: Pick<CustomsRecord, RateField>,
+): RateChange[] {
+  const changes: RateChange[] = [];
+  for (const field of RATE_FIELDS) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+  return changes;
+}
+
+export function diffDatasets(
+  previous: CustomsRecord[],
+  next: CustomsRecord[],
+  { fromVersion, toVersion }: { fromVersion: string | null; toVersion: string },
+): DatasetChanges {
+  const previousByCode = new Map(previous.map((row) => [row.code, row]));
+  const nextCodes = new Set<string>();
+  const added: DatasetDiffEntry[] = [];
+  const changed: DatasetRateChangeEntry[] = [];
+
+  for (const row of next) {
+    nextCodes.add(row.code);
+    const old = previousByCode.get(row.code);
+    if (!old) {
+      added.push({ code: row.code, description: row.description });
+      continue;
+    }
+    const changes = diffRates(old, row);
+    if (changes.length > 0) {
+      changed.push({ code: row.code, description: row.description, changes });
+    }
+  }
+
+  const removed = previous
+    .filter((row) => !nextCodes.has(row.code))
+    .map((row) => ({ code: row.code, description: row.description }));
+
+  const byCode = (a: DatasetDiffEntry, b: DatasetDiffEntry) =>
+    a.code < b.code ? -1 : a.code > b.code ? 1 : 0;
+
+  return {
+    fromVersion,
+    toVersion,
+    createdAt: new Date().toISOString(),
+    acknowledged: false,
+    added: added.sort(byCode),
+    removed: removed.sort(byCode),
+    changed: changed.sort(byCode),
+  };
+}
+
+/** Changes to watched (starred) codes from one re-import. */
+export type WatchlistAlert = {
+  fromVersion: string | null;
+  toVersion: string;
+  createdAt: string;
+  changed: DatasetRateChangeEntry[];
+  removed: DatasetDiffEntry[];
+};
+
+export function pickWatchlistAlert(
+  changes: DatasetChanges,
+  watchedCodes: Set<string>,
+): WatchlistAlert | null {
+  const changed = changes.changed.filter((entry) => watchedCodes.has(entry.code));
+  const removed = changes.removed.filter((entry) => watchedCodes.has(entry.code));
+  if (changed.length + removed.length === 0) return null;
+  return {
+    fromVersion: changes.fromVersion,
+    toVersion: changes.toVersion,
+    createdAt: changes.createdAt,
+    changed,
+    removed,
+  };
+}
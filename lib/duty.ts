@@ -0,0 +1,99 @@
+import type { CustomsRecord } from "@/lib/database";
+
+export type DutyRateField = "percentage" | "cefta" | "msa" | "trmtl";
+
+export type LandedCostInput = {
+  /** CIF value of the goods in euro. */
+  value: number;
+  /** Quantity in the line's unit of measure; only used when `uomCode` is set. */
+  quantity?: number | null;
+  rateField: DutyRateField;
+};
+
+export type LandedCostStep = {
+  id: "cif" | "duty" | "excise" | "vat" | "total";
+  base: number;
+  rate: number | null;
+  amount: number;
+};
+
+export type LandedCostBreakdown = {
+  value: number;
+  dutyRate: number;
+  duty: number;
+  exciseRate: number;
+  excise: number;
+  vatBase: number;
+  vatRate: number;
+  vat: number;
+  total: number;
+  /** Landed cost per unit of measure, when a quantity was supplied. */
+  perUnit: number | null;
+  steps: LandedCostStep[];
+};
+
+/** Rounds to whole cents. */
+export function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/** Reads a typed amount, accepting a decimal comma; anything else counts as 0. */
+export function parseAmount(raw: string): number {
+  const value = Number(raw.replace(",", "."));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function rateOf(value: number | null | undefined): number {
+  return Number.isFinite(value) ? Number(value) : 0;
+}
+
+/**
+ * Computes the import charges for one tariff line.
+ *
+ * Duty applies to the CIF value, excise (ad valorem) to CIF plus duty, and
+ * TVSH to CIF plus duty plus excise. Each amount is rounded to cents before
+ * it feeds the next base, matching how the customs declaration is assessed.
+ */
+export function calculateLandedCost(
+  record: Pick<
+    CustomsRecord,
+    DutyRateField | "excise" | "tvsh" | "uomCode"
+  >,
+  { value, quantity, rateField }: LandedCostInput,
+): LandedCostBreakdown {
+  const cif = roundMoney(Math.max(0, rateOf(value)));
+  const dutyRate = rateOf(record[rateField]);
+  const exciseRate = rateOf(record.excise);
+  const vatRate = rateOf(record.tvsh);
+
+  const duty = roundMoney((cif * dutyRate) / 100);
+  const exciseBase = roundMoney(cif + duty);
+  const excise = roundMoney((exciseBase * exciseRate) / 100);
+  const vatBase = roundMoney(exciseBase + excise);
+  const vat = roundMoney((vatBase * vatRate) / 100);
+  const total = roundMoney(vatBase + vat);
+
+  const units = rateOf(quantity);
+  const perUnit =
+    record.uomCode && units > 0 ? roundMoney(total / units) : null;
+
+  return {
+    value: cif,
+    dutyRate,
+    duty,
+    exciseRate,
+    excise,
+    vatBase,
+    vatRate,
+    vat,
+    total,
+    perUnit,
+    steps: [
+      { id: "cif", base: cif, rate: null, amount: cif },
+      { id: "duty", base: cif, rate: dutyRate, amount: duty },
+      { id: "excise", base: exciseBase, rate: exciseRate, amount: excise },
+      { id: "vat", base: vatBase, rate: vatRate, amount: vat },
+      { id: "total", base: vatBase, rate: null, amount: total },
+    ],
+  };
+}
@@ -0,0 +1,211 @@
+import type { CustomsFlatRow, CustomsTreeNode } from "@/lib/database";
+import type { RateField } from "@/lib/dataset-diff";
+import { formatDate } from "@/lib/formatters";
+import type { I18n } from "@/lib/i18n";
+
+export type ExportRow = CustomsFlatRow & {
+  depth: number;
+  parentCode: string | null;
+  /** Row matched the active code prefix or description query. */
+  matched: boolean;
+};
+
+type ExportValue = string | number | null;
+
+type ExportColumn = {
+  header: (i18n: I18n) => string;
+  width: number;
+  value: (row: ExportRow, i18n: I18n) => ExportValue;
+};
+
+const rateColumn = (field: RateField): ExportColumn => ({
+  header: ({ t }) => `${t(`rate.${field}`)} (%)`,
+  width: 10,
+  value: (row) => row[field],
+});
+
+/** Export columns keyed by table column id. */
+const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  code: {
+    header: ({ t }) => t("column.code"),
+    width: 14,
+    value: (row) => row.code,
+  },
+  description: {
+    header: ({ t }) => t("column.description"),
+    width: 80,
+    value: (row) => row.description,
+  },
+  percentage: rateColumn("percentage"),
+  cefta: rateColumn("cefta"),
+  msa: rateColumn("msa"),
+  trmtl: rateColumn("trmtl"),
+  tvsh: rateColumn("tvsh"),
+  excise: rateColumn("excise"),
+  uomCode: {
+    header: ({ t }) => t("column.uom"),
+    width: 8,
+    value: (row) => row.uomCode,
+  },
+  measures: {
+    header: ({ t }) => t("column.measures"),
+    width: 40,
+    value: (row, { t }) =>
+      [
+        row.importMeasure
+          ? t("column.importMeasure", { measure: row.importMeasure })
+          : null,
+        row.exportMeasure
+          ? t("column.exportMeasure", { measure: row.exportMeasure })
+          : null,
+      ]
+        .filter(Boolean)
+        .join("; ") || null,
+  },
+  validFrom: {
+    header: ({ t }) => t("column.validFrom"),
+    width: 14,
+    value: (row, { locale }) =>
+      row.validFrom ? formatDate(row.validFrom, locale) : null,
+  },
+};
+
+const STRUCTURE_COLUMNS: ExportColumn[] = [
+  { header: ({ t }) => t("export.level"), width: 8, value: (row) => row.depth },
+  {
+    header: ({ t }) => t("export.parentCode"),
+    width: 14,
+    value: (row) => row.parentCode,
+  },
+  {
+    header: ({ t }) => t("export.matched"),
+    width: 10,
+    value: (row, { t }) => (row.matched ? t("export.yes") : ""),
+  },
+];
+
+export type ExportOptions = {
+  /** Visible table column ids, in display order. */
+  columnIds: string[];
+  codePrefix: string;
+  fileName: string;
+  i18n: I18n;
+};
+
+export function flattenTree(
+  nodes: CustomsTreeNode[],
+  codePrefix = "",
+): ExportRow[] {
+  const rows: ExportRow[] = [];
+  const visit = (node: CustomsTreeNode, depth: number, parentCode: string | null) => {
+    const { subRows, ...record } = node;
+    rows.push({
+      ...record,
+      depth,
+      parentCode,
+      matched:
+        Boolean(record.highlightedDescription) ||
+        (codePrefix.length > 0 && record.code.startsWith(codePrefix)),
+    });
+    subRows.forEach((child) => visit(child, depth + 1, node.code));
+  };
+  nodes.forEach((node) => visit(node, 0, null));
+  return rows;
+}
+
+function resolveColumns(columnIds: string[]): ExportColumn[] {
+  const columns = columnIds
+    .map((id) => EXPORT_COLUMNS[id])
+    .filter((column): column is ExportColumn => Boolean(column));
+  return [...columns, ...STRUCTURE_COLUMNS];
+}
+
+function escapeCsvValue(value: ExportValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(
+  rows: ExportRow[],
+  columnIds: string[],
+  i18n: I18n,
+): string {
+  const columns = resolveColumns(columnIds);
+  const lines = [
+    columns.map((column) => escapeCsvValue(column.header(i18n))).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsvValue(column.value(row, i18n))).join(","),
+    ),
+  ];
+  return lines.join("\r\n");
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Firefox and Safari may cancel the download if the URL goes right away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadCsv(
+  nodes: CustomsTreeNode[],
+  { columnIds, codePrefix, fileName, i18n }: ExportOptions,
+) {
+  const csv = toCsv(flattenTree(nodes, codePrefix), columnIds, i18n);
+  // BOM so Excel opens the UTF-8 file with Albanian characters intact
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+  downloadBlob(blob, `${fileName}.csv`);
+}
+
+export async function downloadXlsx(
+  nodes: CustomsTreeNode[],
+  { columnIds, codePrefix, fileName, i18n }: ExportOptions,
+) {
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  const columns = resolveColumns(columnIds);
+  const rows = flattenTree(nodes, codePrefix);
+
+  const header = columns.map((column) => ({
+    value: column.header(i18n),
+    fontWeight: "bold" as const,
+  }));
+  const body = rows.map((row) =>
+    columns.map((column) => {
+      const value = column.value(row, i18n);
+      return {
+        value: value ?? undefined,
+        ...(row.matched ? { backgroundColor: "#FDE68A" } : {}),
+      };
+    }),
+  );
+
+  await writeXlsxFile([header, ...body], {
+    sheet: i18n.t("export.sheet"),
+    columns: columns.map((column) => ({ width: column.width })),
+    stickyRowsCount: 1,
+  }).toFile(`${fileName}.xlsx`);
+}
+
+/** File name stem describing the exported search. */
+export function buildExportFileName(codePrefix: string, descQuery: string): string {
+  const parts = ["tarifat"];
+  if (codePrefix) parts.push(codePrefix);
+  if (descQuery) {
+    parts.push(
+      descQuery
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-zA-Z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 40),
+    );
+  }
+  parts.push(new Date().toISOString().slice(0, 10));
+  return parts.filter(Boolean).join("_");
+}
@@ -0,0 +1,101 @@
+import { getDb, type FavoriteRecord } from "@/lib/database";
+
+const EXPORT_FORMAT = "customs-explorer-favorites";
+const EXPORT_VERSION = 1;
+
+export type FavoritesExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  favorites: FavoriteRecord[];
+};
+
+export function createFavorite(code: string, note = ""): FavoriteRecord {
+  const now = new Date().toISOString();
+  return { code, note, createdAt: now, updatedAt: now };
+}
+
+export function serializeFavorites(favorites: FavoriteRecord[]): string {
+  const payload: FavoritesExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    favorites: [...favorites].sort((a, b) => a.code.localeCompare(b.code)),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Reads an export file. A bare array of favorites or of codes is accepted
+ * too, so a list pasted from a spreadsheet can be imported.
+ */
+export function parseFavorites(json: string): FavoriteRecord[] {
+  const parsed: unknown = JSON.parse(json);
+  const items = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Partial<FavoritesExport> | null)?.favorites;
+  if (!Array.isArray(items)) {
+    throw new TypeError("Expected a favorites export or an array of codes.");
+  }
+
+  const favorites = new Map<string, FavoriteRecord>();
+  for (const item of items) {
+    const raw = typeof item === "string" ? { code: item } : item;
+    const code = typeof raw?.code === "string" ? raw.code.replace(/\s+/g, "") : "";
+    if (!code) continue;
+    const favorite = createFavorite(
+      code,
+      typeof raw.note === "string" ? raw.note : "",
+    );
+    if (typeof raw.createdAt === "string") favorite.createdAt = raw.createdAt;
+    if (typeof raw.updatedAt === "string") favorite.updatedAt = raw.updatedAt;
+    favorites.set(code, favorite);
+  }
+  return Array.from(favorites.values());
+}
+
+export class FavoriteService {
+  static async list(): Promise<FavoriteRecord[]> {
+    try {
+      const db = getDb();
+      return await db.favorites.orderBy("code").toArray();
+    } catch (error) {
+      console.error("Error listing favorites:", error);
+      return [];
+    }
+  }
+
+  static async save(favorite: FavoriteRecord): Promise<FavoriteRecord> {
+    const db = getDb();
+    const next = { ...favorite, updatedAt: new Date().toISOString() };
+    await db.favorites.put(next);
+    return next;
+  }
+
+  static async remove(code: string): Promise<void> {
+    const db = getDb();
+    await db.favorites.delete(code);
+  }
+
+  /**
+   * Merges imported favorites into the stored ones. When both carry a
+   * different note for a code, the more recently edited one wins. Returns the
+   * count added or updated.
+   */
+  static async importMany(favorites: FavoriteRecord[]): Promise<number> {
+    const db = getDb();
+    return db.transaction("rw", db.favorites, async () => {
+      const existing = await db.favorites.bulkGet(
+        favorites.map((favorite) => favorite.code),
+      );
+      const changed = favorites.filter((favorite, index) => {
+        const current = existing[index];
+        if (!current) return true;
+        if (!favorite.note || favorite.note === current.note) return false;
+        return !current.note || favorite.updatedAt > current.updatedAt;
+      });
+      await db.favorites.bulkPut(changed);
+      return changed.length;
+    });
+  }
+}
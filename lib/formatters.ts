@@ -1,25 +1,41 @@
-export function formatPercent(val: number | null | undefined): string {
+import { DEFAULT_LOCALE, getIntlLocale, type Locale } from "@/lib/i18n";
+
+export function formatPercent(
+  val: number | null | undefined,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
   if (!Number.isFinite(val)) {
     return "—";
   }
-  return `${val}%`;
+  const number = new Intl.NumberFormat(getIntlLocale(locale), {
+    maximumFractionDigits: 2,
+  }).format(val as number);
+  return `${number}%`;
 }
 
-export function formatDate(value: unknown): string {
+export function formatDate(
+  value: unknown,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
   try {
     const dt = new Date(value as string);
-    return Number.isNaN(dt.getTime()) ? "—" : dt.toLocaleDateString();
+    return Number.isNaN(dt.getTime())
+      ? "—"
+      : dt.toLocaleDateString(getIntlLocale(locale));
   } catch {
     return "—";
   }
 }
 
-export function formatMoney(value: unknown): string {
+export function formatMoney(
+  value: unknown,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
   if (value === null || value === undefined || Number.isNaN(Number(value))) {
     return "—";
   }
   try {
-    return Number(value).toLocaleString(undefined, {
+    return Number(value).toLocaleString(getIntlLocale(locale), {
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     });
@@ -0,0 +1,120 @@
+import type { CustomsRecord } from "@/lib/database";
+import { RATE_FIELDS, type RateField } from "@/lib/dataset-diff";
+
+/**
+ * The 21 sections of the Harmonized System and the chapters each spans.
+ * Titles live in the catalogs under `hsSection.<id>`.
+ */
+export const HS_SECTIONS = [
+  { id: 1, roman: "I", firstChapter: 1, lastChapter: 5 },
+  { id: 2, roman: "II", firstChapter: 6, lastChapter: 14 },
+  { id: 3, roman: "III", firstChapter: 15, lastChapter: 15 },
+  { id: 4, roman: "IV", firstChapter: 16, lastChapter: 24 },
+  { id: 5, roman: "V", firstChapter: 25, lastChapter: 27 },
+  { id: 6, roman: "VI", firstChapter: 28, lastChapter: 38 },
+  { id: 7, roman: "VII", firstChapter: 39, lastChapter: 40 },
+  { id: 8, roman: "VIII", firstChapter: 41, lastChapter: 43 },
+  { id: 9, roman: "IX", firstChapter: 44, lastChapter: 46 },
+  { id: 10, roman: "X", firstChapter: 47, lastChapter: 49 },
+  { id: 11, roman: "XI", firstChapter: 50, lastChapter: 63 },
+  { id: 12, roman: "XII", firstChapter: 64, lastChapter: 67 },
+  { id: 13, roman: "XIII", firstChapter: 68, lastChapter: 70 },
+  { id: 14, roman: "XIV", firstChapter: 71, lastChapter: 71 },
+  { id: 15, roman: "XV", firstChapter: 72, lastChapter: 83 },
+  { id: 16, roman: "XVI", firstChapter: 84, lastChapter: 85 },
+  { id: 17, roman: "XVII", firstChapter: 86, lastChapter: 89 },
+  { id: 18, roman: "XVIII", firstChapter: 90, lastChapter: 92 },
+  { id: 19, roman: "XIX", firstChapter: 93, lastChapter: 93 },
+  { id: 20, roman: "XX", firstChapter: 94, lastChapter: 96 },
+  { id: 21, roman: "XXI", firstChapter: 97, lastChapter: 97 },
+] as const;
+
+export type HsSection = (typeof HS_SECTIONS)[number];
+
+export type ChapterSummary = {
+  /** Two-digit chapter code, e.g. "07". */
+  chapter: string;
+  /** Description of the two-digit root record, when the dataset has one. */
+  title: string | null;
+  /** Rows in the chapter, headings included. */
+  count: number;
+  /** Lowest and highest rate among the chapter's tariff lines. */
+  rates: Record<RateField, { min: number; max: number }>;
+};
+
+export type SectionSummary = {
+  section: HsSection;
+  chapters: ChapterSummary[];
+  count: number;
+};
+
+export function getSectionForChapter(chapter: string): HsSection | null {
+  const number = Number(chapter);
+  return (
+    HS_SECTIONS.find(
+      (section) =>
+        number >= section.firstChapter && number <= section.lastChapter,
+    ) ?? null
+  );
+}
+
+/**
+ * Groups the rows by chapter. Rate ranges skip headings, whose rates only
+ * repeat their children's.
+ */
+export function summarizeChapters(rows: CustomsRecord[]): ChapterSummary[] {
+  const byChapter = new Map<string, ChapterSummary>();
+  const titles = new Map<string, string>();
+
+  for (const row of rows) {
+    const chapter = row.code.slice(0, 2);
+    if (chapter.length < 2) continue;
+    let summary = byChapter.get(chapter);
+    if (!summary) {
+      summary = {
+        chapter,
+        title: null,
+        count: 0,
+        rates: Object.fromEntries(
+          RATE_FIELDS.map((field) => [
+            field,
+            { min: Number.POSITIVE_INFINITY, max: Number.NEGATIVE_INFINITY },
+          ]),
+        ) as ChapterSummary["rates"],
+      };
+      byChapter.set(chapter, summary);
+    }
+    summary.count += 1;
+
+    if (row.code === chapter) titles.set(chapter, row.description);
+
+    if (row.childCount) continue;
+    for (const field of RATE_FIELDS) {
+      const range = summary.rates[field];
+      range.min = Math.min(range.min, row[field]);
+      range.max = Math.max(range.max, row[field]);
+    }
+  }
+
+  // Every chapter has at least one line, so the ranges are all finite
+  return Array.from(byChapter.values())
+    .map((summary) => ({
+      ...summary,
+      title: titles.get(summary.chapter) ?? null,
+    }))
+    .sort((a, b) => a.chapter.localeCompare(b.chapter));
+}
+
+/** Sections in order, each with the chapters present in the dataset. */
+export function groupBySection(chapters: ChapterSummary[]): SectionSummary[] {
+  return HS_SECTIONS.map((section) => {
+    const inSection = chapters.filter(
+      (summary) => getSectionForChapter(summary.chapter)?.id === section.id,
+    );
+    return {
+      section,
+      chapters: inSection,
+      count: inSection.reduce((total, summary) => total + summary.count, 0),
+    };
+  }).filter((group) => group.chapters.length > 0);
+}
@@ -0,0 +1,63 @@
+import { en } from "@/lib/locales/en";
+import { sq, type Messages } from "@/lib/locales/sq";
+import { sr } from "@/lib/locales/sr";
+
+export type Locale = "sq" | "en" | "sr";
+
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/** What locale-aware helpers need: the active locale and its translator. */
+export type I18n = {
+  locale: Locale;
+  t: Translate;
+};
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: "sq", label: "Shqip" },
+  { id: "en", label: "English" },
+  { id: "sr", label: "Srpski" },
+];
+
+export const DEFAULT_LOCALE: Locale = "sq";
+
+const CATALOGS: Record<Locale, Messages> = { sq, en, sr };
+
+// Serbian is written in Latin script, as in Kosovo's official publications
+const INTL_LOCALES: Record<Locale, string> = {
+  sq: "sq-AL",
+  en: "en-GB",
+  sr: "sr-Latn-RS",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return value === "sq" || value === "en" || value === "sr";
+}
+
+export function getIntlLocale(locale: Locale): string {
+  return INTL_LOCALES[locale];
+}
+
+/** Fills `{name}` placeholders; numbers are formatted for the locale. */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: MessageParams,
+): string {
+  const template = CATALOGS[locale][key] ?? sq[key];
+  if (!params) return template;
+  const numberFormat = new Intl.NumberFormat(getIntlLocale(locale));
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number" ? numberFormat.format(value) : value;
+  });
+}
+
+export function createI18n(locale: Locale): I18n {
+  return {
+    locale,
+    t: (key, params) => translate(locale, key, params),
+  };
+}
@@ -0,0 +1,312 @@
+import type { Messages } from "@/lib/locales/sq";
+
+export const en: Messages = {
+  "common.loading": "Loading ...",
+  "common.origin": "Origin of goods",
+  "common.language": "Language",
+  "common.loadFailed": "The data could not be loaded. Check the console for details.",
+
+  "home.title": "Republic of Kosovo Customs Tariff Explorer",
+  "home.intro":
+    "Search and browse customs tariffs by code or description, or calculate the charges for a given value. Results update instantly as you filter.",
+  "home.lastUpdated": "Last updated",
+  "home.dataRefresh":
+    "The data is refreshed periodically from public Kosovo Customs sources.",
+  "home.noticeTitle": "Important information",
+  "home.noticeBefore": "This application is unofficial and",
+  "home.noticeStrong": "does not represent Kosovo Customs",
+  "home.noticeAfter":
+    ". The data is loaded from public sources and may be out of date. For official information, refer to the official publications.",
+  "home.sourceLink": "View the source code on GitHub",
+
+  "progress.cached": "Found {loaded} cached rows.",
+  "progress.updating": "A new version of the data was found. Updating...",
+  "progress.loading": "Loading tariff data...",
+  "progress.indexing": "Indexing {loaded} / {total} rows...",
+  "progress.loadingIndex": "Loading the saved search index...",
+  "progress.buildingIndex": "Building the search index {loaded} / {total}...",
+  "progress.done": "Data indexing finished.",
+  "progress.failed": "Indexing failed. Check the console for details.",
+
+  "explorer.filtersTitle": "Filter the data",
+  "explorer.filtersDescription":
+    "Fill in one or more fields to narrow down the results.",
+  "explorer.codePrefix": "Code prefix",
+  "explorer.codePrefixPlaceholder": "e.g. 7208 or 01",
+  "explorer.description": "Description",
+  "explorer.descriptionPlaceholder": "e.g. \"tub çeliku\"",
+  "explorer.descriptionHint":
+    "Search the Albanian descriptions, or English ones where the data includes them. Type at least 3 letters (e.g. \"vajra\" or \"tub\") to see the matching sub-codes. The letters ë and ç can also be typed as e and c.",
+  "explorer.fuzzy": "Tolerate typos (approximate search)",
+  "explorer.suggest": "Suggest codes: rank the most likely tariff lines",
+  "explorer.originHint": "The highlighted column shows the duty rate that applies.",
+  "explorer.asOf": "Rates on date",
+  "explorer.asOfHint": "Leave empty for the current rates.",
+  "explorer.resultsTitle": "Results",
+  "explorer.resultsDescription":
+    "Click the icon to expand the code hierarchy, or a row to open the code details.",
+  "explorer.exportCsv": "Download the current results as CSV",
+  "explorer.exportXlsx": "Download the current results as Excel",
+  "explorer.copyLinkTitle": "Copy a link to this search",
+  "explorer.copyLink": "Copy link",
+  "explorer.linkCopied": "Copied",
+  "explorer.topLevelCount": "{count} top-level categories",
+  "explorer.searchShortcut": "Shortcut:",
+
+  "filters.title": "Filter by rates (%), unit and measures",
+  "filters.min": "min",
+  "filters.max": "max",
+  "filters.minFor": "{field} minimum",
+  "filters.maxFor": "{field} maximum",
+  "filters.uom": "Unit",
+  "filters.uomPlaceholder": "e.g. kg",
+  "filters.measure": "Measures",
+  "filters.measure.any": "All codes",
+  "filters.measure.some": "With any measure",
+  "filters.measure.import": "With an import measure",
+  "filters.measure.export": "With an export measure",
+  "filters.clear": "Clear filters",
+  "filters.hint":
+    "Bounds are inclusive: e.g. CEFTA 0–0 finds codes with no CEFTA duty, and excise min 0.01 finds codes with excise. Parent codes are shown for context.",
+
+  "column.code": "Code",
+  "column.description": "Description",
+  "column.actions": "Actions",
+  "column.validFrom": "Valid from",
+  "column.effectiveRate": "Rate applied for the selected origin",
+  "column.expand": "Expand",
+  "column.collapse": "Collapse",
+  "column.focusCode": "{code} — mark this code in the link",
+  "column.calculate": "Calculate charges",
+  "column.calculateFor": "Calculate charges for {code}",
+  "column.historyFor": "Rate history for {code}",
+  "column.compare": "Add to the comparison",
+  "column.compareFor": "Compare {code}",
+  "column.compareFull": "The comparison holds at most {max} codes",
+  "column.addToShipment": "Add to shipment",
+  "column.addToShipmentFor": "Add {code} to the shipment",
+  "column.sort": "Sort (Shift for several columns)",
+  "column.resize": "Resize the column",
+  "table.label": "Tariff codes",
+  "table.keyboardHint":
+    "Up and down arrows move between rows, left and right collapse or expand a code, Enter opens the details and / jumps to the search.",
+  "column.uom": "Unit",
+  "column.measures": "Measures",
+  "column.importMeasure": "Import measure: {measure}",
+  "column.exportMeasure": "Export measure: {measure}",
+  "column.import": "Imp",
+  "column.export": "Exp",
+  "column.document": "Open the source document for {code}",
+  "column.favorite": "Star this code",
+  "column.unfavorite": "Remove the star",
+  "column.favoriteFor": "Star {code}",
+  "column.note": "Add a note",
+  "column.noteFor": "Note for {code}",
+
+  "columns.title": "Columns",
+  "columns.moveLeft": "Move {column} left",
+  "columns.moveRight": "Move {column} right",
+  "columns.hint":
+    "Drag a header edge to resize a column; double-click it to reset. Sorting applies within each level of the hierarchy.",
+  "columns.reset": "Reset the layout",
+
+  "compare.title": "Compare codes",
+  "compare.description":
+    "Pick up to {max} codes with the compare button in the table to see them side by side.",
+  "compare.open": "Compare ({count})",
+  "compare.hide": "Hide the comparison",
+  "compare.clear": "Clear",
+  "compare.remove": "Remove {code} from the comparison",
+  "compare.pickMore": "Pick at least one more code to compare.",
+  "compare.sampleValue": "Sample CIF value (€)",
+  "compare.path": "Classification path",
+  "compare.applies": "applies",
+  "compare.hint":
+    "Highlighted values differ between the codes; the charges use the duty rate for the selected origin.",
+
+  "expansion.label": "Row expansion",
+  "expansion.matches": "To matches",
+  "expansion.matchesTitle": "Open just enough rows to show the codes matching the search",
+  "expansion.depth": "Open to level",
+  "expansion.depthOption": "Level {depth}",
+  "expansion.all": "Expand all",
+  "expansion.allTitle": "Open every row (slow for the full tariff)",
+  "expansion.none": "Collapse all",
+
+  "hsSection.1": "Live animals; animal products",
+  "hsSection.2": "Vegetable products",
+  "hsSection.3": "Animal, vegetable or microbial fats and oils; waxes",
+  "hsSection.4": "Prepared foodstuffs; beverages, spirits and vinegar; tobacco",
+  "hsSection.5": "Mineral products",
+  "hsSection.6": "Products of the chemical or allied industries",
+  "hsSection.7": "Plastics and rubber and articles thereof",
+  "hsSection.8": "Raw hides and skins, leather, furskins; travel goods and handbags",
+  "hsSection.9": "Wood, cork and articles thereof; basketware",
+  "hsSection.10": "Pulp of wood; paper and paperboard and articles thereof",
+  "hsSection.11": "Textiles and textile articles",
+  "hsSection.12": "Footwear, headgear, umbrellas; prepared feathers; artificial flowers",
+  "hsSection.13":
+    "Articles of stone, plaster, cement, asbestos, mica; ceramic products; glass",
+  "hsSection.14": "Pearls, precious stones and metals; imitation jewellery; coin",
+  "hsSection.15": "Base metals and articles of base metal",
+  "hsSection.16":
+    "Machinery and mechanical appliances; electrical equipment; sound and image recorders",
+  "hsSection.17": "Vehicles, aircraft, vessels and associated transport equipment",
+  "hsSection.18":
+    "Optical, photographic, measuring and medical instruments; clocks and watches; musical instruments",
+  "hsSection.19": "Arms and ammunition; parts and accessories thereof",
+  "hsSection.20": "Miscellaneous manufactured articles",
+  "hsSection.21": "Works of art, collectors' pieces and antiques",
+
+  "navigator.title": "Chapters",
+  "navigator.description":
+    "The Harmonized System's sections and chapters. Pick a chapter to search within it.",
+  "navigator.clear": "All chapters",
+  "navigator.section": "Section {roman}",
+  "navigator.chapter": "Chapter {chapter}",
+  "navigator.summary": "{count} codes · duty {duty} · VAT {vat}",
+
+  "favorites.only": "Favorites only ({count})",
+  "favorites.exportTitle": "Download favorites and notes as JSON",
+  "favorites.import": "Import",
+  "favorites.importTitle": "Import favorites from a JSON file",
+  "favorites.imported": "Imported {count} codes.",
+  "favorites.importFailed": "The file could not be read. Pick a favorites JSON export.",
+  "favorites.noteTitle": "Note on code",
+  "favorites.closeNote": "Close the note",
+  "favorites.note": "Note",
+  "favorites.notePlaceholder": "e.g. supplier, licence requirements or agreed classification",
+  "favorites.noteHint": "Notes are stored in this browser only; saving a note stars the code.",
+  "favorites.saveNote": "Save note",
+
+  "rate.percentage": "Base",
+  "rate.cefta": "CEFTA",
+  "rate.msa": "SAA",
+  "rate.trmtl": "TR FTA",
+  "rate.tvsh": "VAT",
+  "rate.excise": "Excise",
+
+  "origin.other": "Other countries (base)",
+  "origin.eu": "European Union (SAA)",
+  "origin.cefta": "CEFTA member states",
+  "origin.tr": "Turkey (FTA)",
+  "origin.uk": "United Kingdom",
+
+  "duty.step.cif": "CIF value",
+  "duty.step.duty": "Customs duty",
+  "duty.step.excise": "Excise",
+  "duty.step.vat": "VAT",
+  "duty.step.total": "Total cost",
+
+  "calculator.title": "Duty calculator",
+  "calculator.close": "Close the calculator",
+  "calculator.value": "CIF value (€)",
+  "calculator.valuePlaceholder": "e.g. 1000",
+  "calculator.quantity": "Quantity ({unit})",
+  "calculator.quantityPlaceholder": "e.g. 10",
+  "calculator.step": "Step",
+  "calculator.base": "Base (€)",
+  "calculator.rate": "Rate",
+  "calculator.amount": "Amount (€)",
+  "calculator.perUnit": "Cost per unit ({unit}):",
+  "calculator.note":
+    "Customs duty is charged on the CIF value, excise on the CIF value plus duty, and VAT on a base that includes duty and excise.",
+
+  "suggest.title": "Suggested codes",
+  "suggest.description":
+    "Tariff lines ranked for your description. Matching headings along the path count too, so a line can rank well even when its own text does not use your words.",
+  "suggest.none": "No tariff line matches this description.",
+  "suggest.path": "Classification path",
+  "suggest.rates": "Duty {duty} · VAT {vat}",
+  "suggest.confidence": "{percent}% confidence",
+  "suggest.showInTable": "Show in table",
+  "suggest.details": "Details",
+  "suggest.compare": "Compare",
+
+  "shipment.title": "Shipment / invoice",
+  "shipment.descriptionBefore": "Add lines from the table with the",
+  "shipment.descriptionAfter": "icon and calculate the charges for the whole invoice.",
+  "shipment.close": "Close the shipment",
+  "shipment.saved": "Saved shipments",
+  "shipment.choose": "— Choose a shipment —",
+  "shipment.option": "{name} ({count} lines)",
+  "shipment.new": "New shipment",
+  "shipment.delete": "Delete",
+  "shipment.name": "Name",
+  "shipment.defaultName": "Shipment {date}",
+  "shipment.addCode": "Add tariff code",
+  "shipment.codePlaceholder": "e.g. 87032190",
+  "shipment.add": "Add",
+  "shipment.codeNotFound": "Code {code} was not found.",
+  "shipment.addFailed": "Code {code} could not be added. Try again.",
+  "shipment.quantity": "Quantity",
+  "shipment.total": "Total",
+  "shipment.empty": "The shipment has no lines yet.",
+  "shipment.codeMissing": "This code no longer exists in the data",
+  "shipment.valueFor": "CIF value for {code}",
+  "shipment.quantityFor": "Quantity for {code} ({unit})",
+  "shipment.removeLine": "Remove line {code}",
+  "shipment.grandTotal": "Shipment total",
+  "shipment.missingCodes":
+    "Codes {codes} are not in the current data and are left out of the totals.",
+
+  "history.title": "Rate history",
+  "history.close": "Close the history",
+  "history.empty": "There is no history for this code.",
+  "history.previous": "Previously: {value}",
+
+  "changes.title": "What changed in the new data",
+  "changes.replacedWith": "The saved data was replaced with version",
+  "changes.counts":
+    "{added} codes added, {removed} removed and {changed} with changed rates.",
+  "changes.acknowledge": "Got it",
+  "changes.changedRates": "Changed rates ({count})",
+  "changes.added": "Added codes ({count})",
+  "changes.removed": "Removed codes ({count})",
+  "changes.none": "No changes to the tariff codes or rates.",
+  "watchlist.title": "Changes to your starred codes",
+  "watchlist.description": "The latest data update changed the rates of codes you starred.",
+  "watchlist.removed": "Removed from the tariff:",
+  "watchlist.acknowledge": "Got it",
+  "changes.more": "… and {count} more",
+
+  "detail.back": "Back to the explorer",
+  "detail.noCode": "No code was selected.",
+  "detail.notFound": "Code {code} was not found in the data.",
+  "detail.breadcrumb": "Code hierarchy",
+  "detail.unit": "Unit",
+  "detail.children": "Sub-codes ({count})",
+  "detail.noChildren": "This code has no sub-codes.",
+  "detail.siblings": "Codes on the same level ({count})",
+  "detail.noSiblings": "There are no other codes on this level.",
+  "detail.importMeasure": "Import measure",
+  "detail.exportMeasure": "Export measure",
+  "detail.document": "Source document",
+
+  "uom.KGM": "kilogram",
+  "uom.GRM": "gram",
+  "uom.TNE": "metric tonne",
+  "uom.CTM": "metric carat",
+  "uom.LTR": "litre",
+  "uom.LPA": "litre of pure alcohol",
+  "uom.HLT": "hectolitre",
+  "uom.MTR": "metre",
+  "uom.MTK": "square metre",
+  "uom.MTQ": "cubic metre",
+  "uom.NAR": "piece (number of articles)",
+  "uom.NPR": "number of pairs",
+  "uom.PAR": "pair",
+  "uom.CEN": "hundred items",
+  "uom.MIL": "thousand items",
+  "uom.KWH": "kilowatt-hour",
+
+  "export.level": "Level",
+  "export.parentCode": "Parent code",
+  "export.matched": "Matched",
+  "export.yes": "yes",
+  "export.sheet": "Tariffs",
+
+  "update.available": "A new version of the app is ready.",
+  "update.later": "Later",
+  "update.reload": "Reload",
+};
@@ -0,0 +1,314 @@
+// Source catalog: every other locale must provide the same keys.
+export const sq = {
+  "common.loading": "Duke u ngarkuar ...",
+  "common.origin": "Origjina e mallit",
+  "common.language": "Gjuha",
+  "common.loadFailed": "Të dhënat nuk u ngarkuan. Kontrolloni konsolën për detaje.",
+
+  "home.title": "Shfletuesi i Tarifave Doganore të Republikës së Kosovës",
+  "home.intro":
+    "Kërkoni dhe shfletoni tarifat doganore sipas kodit, përshkrimit ose llogaritni detyrimet për një vlerë të caktuar. Rezultatet përditësohen në çast ndërsa filtroni.",
+  "home.lastUpdated": "Përditësuar",
+  "home.dataRefresh":
+    "Të dhënat rifreskohen periodikisht nga burimet publike të Doganës së Kosovës.",
+  "home.noticeTitle": "Informacion i rëndësishëm",
+  "home.noticeBefore": "Ky aplikacion është jo-zyrtar dhe",
+  "home.noticeStrong": "nuk përfaqëson Doganën e Kosovës",
+  "home.noticeAfter":
+    ". Të dhënat ngarkohen nga burime publike dhe mund të jenë të papërditësuara. Për informata zyrtare, referojuni publikimeve zyrtare.",
+  "home.sourceLink": "Shih kodin burimor në GitHub",
+
+  "progress.cached": "U gjetën {loaded} rreshta ekzistues.",
+  "progress.updating": "U gjet një version i ri i të dhënave. Duke përditësuar...",
+  "progress.loading": "Duke ngarkuar të dhënat e tarifave...",
+  "progress.indexing": "Duke indeksuar {loaded} / {total} rreshta...",
+  "progress.loadingIndex": "Duke ngarkuar indeksin e ruajtur të kërkimit...",
+  "progress.buildingIndex": "Duke ndërtuar indeksin e kërkimit {loaded} / {total}...",
+  "progress.done": "Indeksimi i të dhënave u përfundua.",
+  "progress.failed": "Indeksimi dështoi. Kontrolloni konsolën për detaje.",
+
+  "explorer.filtersTitle": "Filtro të dhënat",
+  "explorer.filtersDescription":
+    "Plotësoni njërin ose disa prej fushave për të kufizuar rezultatet.",
+  "explorer.codePrefix": "Prefiksi i Kodit",
+  "explorer.codePrefixPlaceholder": "p.sh. 7208 ose 01",
+  "explorer.description": "Përshkrimi",
+  "explorer.descriptionPlaceholder": "p.sh. \"tub çeliku\"",
+  "explorer.descriptionHint":
+    "Shkruani të paktën 3 shkronja nga përshkrimi (p.sh. \"vajra\" ose \"tub\") për të parë nën-kodet përkatëse. Shkronjat ë dhe ç mund të shkruhen edhe si e dhe c.",
+  "explorer.fuzzy": "Toleroni gabimet e shtypit (kërkim i përafërt)",
+  "explorer.suggest": "Sugjero kode: rendit linjat tarifore më të mundshme",
+  "explorer.originHint": "Kolona e theksuar tregon normën doganore që zbatohet.",
+  "explorer.asOf": "Normat në datën",
+  "explorer.asOfHint": "Lëreni bosh për normat aktuale.",
+  "explorer.resultsTitle": "Rezultatet",
+  "explorer.resultsDescription":
+    "Klikoni ikonën për të zgjeruar hierarkinë e kodeve ose një rresht për të hapur detajet e kodit.",
+  "explorer.exportCsv": "Shkarko rezultatet aktuale si CSV",
+  "explorer.exportXlsx": "Shkarko rezultatet aktuale si Excel",
+  "explorer.copyLinkTitle": "Kopjo lidhjen për këtë kërkim",
+  "explorer.copyLink": "Kopjo lidhjen",
+  "explorer.linkCopied": "U kopjua",
+  "explorer.topLevelCount": "{count} kategori kryesore",
+  "explorer.searchShortcut": "Shkurtore:",
+
+  "filters.title": "Filtro sipas normave (%), njësisë dhe masave",
+  "filters.min": "min",
+  "filters.max": "maks",
+  "filters.minFor": "{field} minimumi",
+  "filters.maxFor": "{field} maksimumi",
+  "filters.uom": "Njësia",
+  "filters.uomPlaceholder": "p.sh. kg",
+  "filters.measure": "Masat",
+  "filters.measure.any": "Të gjitha kodet",
+  "filters.measure.some": "Me ndonjë masë",
+  "filters.measure.import": "Me masë importi",
+  "filters.measure.export": "Me masë eksporti",
+  "filters.clear": "Pastro filtrat",
+  "filters.hint":
+    "Kufijtë përfshihen: p.sh. CEFTA 0–0 gjen kodet pa doganë CEFTA, ndërsa aksiza min 0,01 gjen kodet me aksizë. Shfaqen edhe kodet prind për kontekst.",
+
+  "column.code": "Kodi",
+  "column.description": "Përshkrimi",
+  "column.actions": "Veprime",
+  "column.validFrom": "E vlefshme nga",
+  "column.effectiveRate": "Norma që zbatohet për origjinën e zgjedhur",
+  "column.expand": "Zgjero",
+  "column.collapse": "Tkurre",
+  "column.focusCode": "{code} — shëno këtë kod në lidhje",
+  "column.calculate": "Llogarit detyrimet",
+  "column.calculateFor": "Llogarit detyrimet për {code}",
+  "column.historyFor": "Historiku i normave për {code}",
+  "column.compare": "Shto te krahasimi",
+  "column.compareFor": "Krahaso {code}",
+  "column.compareFull": "Krahasimi mban më së shumti {max} kode",
+  "column.addToShipment": "Shto në dërgesë",
+  "column.addToShipmentFor": "Shto {code} në dërgesë",
+  "column.sort": "Rendit (Shift për disa kolona)",
+  "column.resize": "Ndrysho gjerësinë e kolonës",
+  "table.label": "Kodet tarifore",
+  "table.keyboardHint":
+    "Shigjetat lart e poshtë lëvizin ndërmjet rreshtave, majtas e djathtas tkurrin ose zgjerojnë një kod, Enter hap detajet dhe / kalon te kërkimi.",
+  "column.uom": "Njësia",
+  "column.measures": "Masat",
+  "column.importMeasure": "Masë importi: {measure}",
+  "column.exportMeasure": "Masë eksporti: {measure}",
+  "column.import": "Imp",
+  "column.export": "Eksp",
+  "column.document": "Hap dokumentin burimor për {code}",
+  "column.favorite": "Shëno si të preferuar",
+  "column.unfavorite": "Hiq nga të preferuarit",
+  "column.favoriteFor": "Të preferuar: {code}",
+  "column.note": "Shto shënim",
+  "column.noteFor": "Shënimi për {code}",
+
+  "columns.title": "Kolonat",
+  "columns.moveLeft": "Lëviz {column} majtas",
+  "columns.moveRight": "Lëviz {column} djathtas",
+  "columns.hint":
+    "Tërhiqni skajin e titullit për të ndryshuar gjerësinë; klikoni dy herë për ta rikthyer. Renditja zbatohet brenda çdo niveli të hierarkisë.",
+  "columns.reset": "Rikthe paraqitjen fillestare",
+
+  "compare.title": "Krahaso kodet",
+  "compare.description":
+    "Zgjidhni deri në {max} kode me butonin e krahasimit në tabelë për t'i parë krah për krah.",
+  "compare.open": "Krahaso ({count})",
+  "compare.hide": "Fshih krahasimin",
+  "compare.clear": "Pastro",
+  "compare.remove": "Hiq {code} nga krahasimi",
+  "compare.pickMore": "Zgjidhni edhe të paktën një kod për ta krahasuar.",
+  "compare.sampleValue": "Vlera shembull CIF (€)",
+  "compare.path": "Rruga e klasifikimit",
+  "compare.applies": "zbatohet",
+  "compare.hint":
+    "Vlerat e theksuara ndryshojnë ndërmjet kodeve; detyrimet llogariten me normën doganore për origjinën e zgjedhur.",
+
+  "expansion.label": "Hapja e rreshtave",
+  "expansion.matches": "Te përputhjet",
+  "expansion.matchesTitle": "Hap vetëm aq rreshta sa të shihen kodet që përputhen me kërkimin",
+  "expansion.depth": "Hap deri në nivel",
+  "expansion.depthOption": "Niveli {depth}",
+  "expansion.all": "Hap të gjitha",
+  "expansion.allTitle": "Hap çdo rresht (i ngadalshëm për tarifën e plotë)",
+  "expansion.none": "Mbyll të gjitha",
+
+  "hsSection.1": "Kafshë të gjalla; produkte shtazore",
+  "hsSection.2": "Produkte bimore",
+  "hsSection.3": "Yndyra dhe vajra shtazore, bimore ose mikrobike; dylli",
+  "hsSection.4": "Produkte ushqimore të përgatitura; pije, alkool dhe uthull; duhan",
+  "hsSection.5": "Produkte minerale",
+  "hsSection.6": "Produkte të industrisë kimike ose të industrive të lidhura me të",
+  "hsSection.7": "Plastika, gomë dhe artikuj prej tyre",
+  "hsSection.8":
+    "Lëkurë të papërpunuara, lëkurë të regjura, gëzofë; artikuj udhëtimi dhe çanta dore",
+  "hsSection.9": "Dru, tapë dhe artikuj prej tyre; artikuj thurjeje",
+  "hsSection.10": "Pulpë druri; letër dhe karton dhe artikuj prej tyre",
+  "hsSection.11": "Tekstile dhe artikuj tekstili",
+  "hsSection.12": "Këpucë, kapele, çadra; pupla të përpunuara; lule artificiale",
+  "hsSection.13":
+    "Artikuj prej guri, allçie, çimentoje, azbesti, mike; produkte qeramike; qelq",
+  "hsSection.14": "Perla, gurë dhe metale të çmuara; bizhuteri imitacion; monedha",
+  "hsSection.15": "Metale bazë dhe artikuj prej tyre",
+  "hsSection.16":
+    "Makineri dhe pajisje mekanike; pajisje elektrike; aparate regjistrimi të zërit dhe figurës",
+  "hsSection.17": "Automjete, mjete ajrore, anije dhe pajisje transporti",
+  "hsSection.18":
+    "Instrumente optike, fotografike, matëse dhe mjekësore; orë; instrumente muzikore",
+  "hsSection.19": "Armë dhe municione; pjesë dhe aksesorë të tyre",
+  "hsSection.20": "Artikuj të ndryshëm të prodhuar",
+  "hsSection.21": "Vepra arti, sende koleksioni dhe antikitete",
+
+  "navigator.title": "Kapitujt",
+  "navigator.description":
+    "Seksionet dhe kapitujt e Sistemit të Harmonizuar. Zgjidhni një kapitull për të kërkuar brenda tij.",
+  "navigator.clear": "Të gjithë kapitujt",
+  "navigator.section": "Seksioni {roman}",
+  "navigator.chapter": "Kapitulli {chapter}",
+  "navigator.summary": "{count} kode · dogana {duty} · TVSH {vat}",
+
+  "favorites.only": "Vetëm të preferuarit ({count})",
+  "favorites.exportTitle": "Shkarko të preferuarit dhe shënimet si JSON",
+  "favorites.import": "Importo",
+  "favorites.importTitle": "Importo të preferuar nga një skedar JSON",
+  "favorites.imported": "U importuan {count} kode.",
+  "favorites.importFailed": "Skedari nuk u lexua. Zgjidhni një eksport JSON të të preferuarve.",
+  "favorites.noteTitle": "Shënim për kodin",
+  "favorites.closeNote": "Mbyll shënimin",
+  "favorites.note": "Shënimi",
+  "favorites.notePlaceholder": "p.sh. furnitori, kërkesat për licencë ose klasifikimi i dakorduar",
+  "favorites.noteHint": "Shënimet ruhen vetëm në këtë shfletues; ruajtja e një shënimi e shënon kodin si të preferuar.",
+  "favorites.saveNote": "Ruaj shënimin",
+
+  "rate.percentage": "Bazë",
+  "rate.cefta": "CEFTA",
+  "rate.msa": "MSA",
+  "rate.trmtl": "TRMTL",
+  "rate.tvsh": "TVSH",
+  "rate.excise": "Aksizë",
+
+  "origin.other": "Vende të tjera (bazë)",
+  "origin.eu": "Bashkimi Evropian (MSA)",
+  "origin.cefta": "Vendet anëtare të CEFTA",
+  "origin.tr": "Turqia (TRMTL)",
+  "origin.uk": "Mbretëria e Bashkuar",
+
+  "duty.step.cif": "Vlera CIF",
+  "duty.step.duty": "Dogana",
+  "duty.step.excise": "Aksiza",
+  "duty.step.vat": "TVSH",
+  "duty.step.total": "Kostoja totale",
+
+  "calculator.title": "Llogaritësi i detyrimeve",
+  "calculator.close": "Mbyll llogaritësin",
+  "calculator.value": "Vlera CIF (€)",
+  "calculator.valuePlaceholder": "p.sh. 1000",
+  "calculator.quantity": "Sasia ({unit})",
+  "calculator.quantityPlaceholder": "p.sh. 10",
+  "calculator.step": "Hapi",
+  "calculator.base": "Baza (€)",
+  "calculator.rate": "Norma",
+  "calculator.amount": "Shuma (€)",
+  "calculator.perUnit": "Kostoja për njësi ({unit}):",
+  "calculator.note":
+    "Dogana llogaritet mbi vlerën CIF, aksiza mbi vlerën CIF plus doganën, ndërsa TVSH mbi bazën që përfshin doganën dhe aksizën.",
+
+  "suggest.title": "Kode të sugjeruara",
+  "suggest.description":
+    "Linjat tarifore të renditura sipas përshkrimit tuaj. Llogariten edhe titujt përgjatë rrugës që përputhen, kështu që një linjë mund të renditet lart edhe kur teksti i saj nuk i përdor fjalët tuaja.",
+  "suggest.none": "Asnjë linjë tarifore nuk përputhet me këtë përshkrim.",
+  "suggest.path": "Rruga e klasifikimit",
+  "suggest.rates": "Dogana {duty} · TVSH {vat}",
+  "suggest.confidence": "Besueshmëria {percent}%",
+  "suggest.showInTable": "Shfaq në tabelë",
+  "suggest.details": "Detajet",
+  "suggest.compare": "Krahaso",
+
+  "shipment.title": "Dërgesa / fatura",
+  "shipment.descriptionBefore": "Shtoni rreshta nga tabela me ikonën",
+  "shipment.descriptionAfter": "dhe llogaritni detyrimet për të gjithë faturën.",
+  "shipment.close": "Mbyll dërgesën",
+  "shipment.saved": "Dërgesat e ruajtura",
+  "shipment.choose": "— Zgjidhni një dërgesë —",
+  "shipment.option": "{name} ({count} rreshta)",
+  "shipment.new": "Dërgesë e re",
+  "shipment.delete": "Fshi",
+  "shipment.name": "Emri",
+  "shipment.defaultName": "Dërgesa {date}",
+  "shipment.addCode": "Shto kod tarifor",
+  "shipment.codePlaceholder": "p.sh. 87032190",
+  "shipment.add": "Shto",
+  "shipment.codeNotFound": "Kodi {code} nuk u gjet.",
+  "shipment.addFailed": "Kodi {code} nuk u shtua. Provoni përsëri.",
+  "shipment.quantity": "Sasia",
+  "shipment.total": "Totali",
+  "shipment.empty": "Dërgesa nuk ka ende rreshta.",
+  "shipment.codeMissing": "Kodi nuk ekziston më në të dhëna",
+  "shipment.valueFor": "Vlera CIF për {code}",
+  "shipment.quantityFor": "Sasia për {code} ({unit})",
+  "shipment.removeLine": "Hiq rreshtin {code}",
+  "shipment.grandTotal": "Totali i dërgesës",
+  "shipment.missingCodes":
+    "Kodet {codes} nuk gjenden në të dhënat aktuale dhe nuk përfshihen në totale.",
+
+  "history.title": "Historiku i normave",
+  "history.close": "Mbyll historikun",
+  "history.empty": "Nuk ka histori për këtë kod.",
+  "history.previous": "Më parë: {value}",
+
+  "changes.title": "Çfarë ndryshoi në të dhënat e reja",
+  "changes.replacedWith": "Të dhënat e ruajtura u zëvendësuan me versionin",
+  "changes.counts":
+    "{added} kode të shtuara, {removed} të hequra dhe {changed} me norma të ndryshuara.",
+  "changes.acknowledge": "E kuptova",
+  "changes.changedRates": "Norma të ndryshuara ({count})",
+  "changes.added": "Kode të shtuara ({count})",
+  "changes.removed": "Kode të hequra ({count})",
+  "changes.none": "Nuk ka ndryshime në kodet ose normat tarifore.",
+  "watchlist.title": "Ndryshime në kodet e preferuara",
+  "watchlist.description": "Përditësimi i fundit i të dhënave ndryshoi normat e disa kodeve që keni shënuar me yll.",
+  "watchlist.removed": "Hequr nga tarifa:",
+  "watchlist.acknowledge": "E kuptova",
+  "changes.more": "… dhe {count} të tjerë",
+
+  "detail.back": "Kthehu te shfletuesi",
+  "detail.noCode": "Nuk është zgjedhur asnjë kod.",
+  "detail.notFound": "Kodi {code} nuk u gjet në të dhëna.",
+  "detail.breadcrumb": "Hierarkia e kodit",
+  "detail.unit": "Njësia",
+  "detail.children": "Nën-kodet ({count})",
+  "detail.noChildren": "Ky kod nuk ka nën-kode.",
+  "detail.siblings": "Kodet në të njëjtin nivel ({count})",
+  "detail.noSiblings": "Nuk ka kode të tjera në këtë nivel.",
+  "detail.importMeasure": "Masa e importit",
+  "detail.exportMeasure": "Masa e eksportit",
+  "detail.document": "Dokumenti burimor",
+
+  "uom.KGM": "kilogram",
+  "uom.GRM": "gram",
+  "uom.TNE": "ton metrik",
+  "uom.CTM": "karat metrik",
+  "uom.LTR": "litër",
+  "uom.LPA": "litër alkool i pastër",
+  "uom.HLT": "hektolitër",
+  "uom.MTR": "metër",
+  "uom.MTK": "metër katror",
+  "uom.MTQ": "metër kub",
+  "uom.NAR": "copë (numri i artikujve)",
+  "uom.NPR": "numri i çifteve",
+  "uom.PAR": "palë",
+  "uom.CEN": "njëqind copë",
+  "uom.MIL": "një mijë copë",
+  "uom.KWH": "kilovat-orë",
+
+  "export.level": "Niveli",
+  "export.parentCode": "Kodi prind",
+  "export.matched": "Përputhet",
+  "export.yes": "po",
+  "export.sheet": "Tarifat",
+
+  "update.available": "Një version i ri i aplikacionit është gati.",
+  "update.later": "Më vonë",
+  "update.reload": "Rifresko",
+};
+
+export type Messages = Record<keyof typeof sq, string>;
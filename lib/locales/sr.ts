@@ -0,0 +1,312 @@
+import type { Messages } from "@/lib/locales/sq";
+
+export const sr: Messages = {
+  "common.loading": "Učitavanje ...",
+  "common.origin": "Poreklo robe",
+  "common.language": "Jezik",
+  "common.loadFailed": "Podaci nisu učitani. Proverite konzolu za detalje.",
+
+  "home.title": "Pretraživač carinskih tarifa Republike Kosovo",
+  "home.intro":
+    "Pretražujte i pregledajte carinske tarife po šifri ili opisu, ili izračunajte dažbine za određenu vrednost. Rezultati se ažuriraju odmah dok filtrirate.",
+  "home.lastUpdated": "Ažurirano",
+  "home.dataRefresh":
+    "Podaci se povremeno osvežavaju iz javnih izvora Carine Kosova.",
+  "home.noticeTitle": "Važna informacija",
+  "home.noticeBefore": "Ova aplikacija je nezvanična i",
+  "home.noticeStrong": "ne predstavlja Carinu Kosova",
+  "home.noticeAfter":
+    ". Podaci se učitavaju iz javnih izvora i možda nisu ažurni. Za zvanične informacije pogledajte zvanične publikacije.",
+  "home.sourceLink": "Pogledajte izvorni kod na GitHub-u",
+
+  "progress.cached": "Pronađeno {loaded} sačuvanih redova.",
+  "progress.updating": "Pronađena je nova verzija podataka. Ažuriranje...",
+  "progress.loading": "Učitavanje tarifnih podataka...",
+  "progress.indexing": "Indeksiranje {loaded} / {total} redova...",
+  "progress.loadingIndex": "Učitavanje sačuvanog indeksa pretrage...",
+  "progress.buildingIndex": "Izrada indeksa pretrage {loaded} / {total}...",
+  "progress.done": "Indeksiranje podataka je završeno.",
+  "progress.failed": "Indeksiranje nije uspelo. Proverite konzolu za detalje.",
+
+  "explorer.filtersTitle": "Filtrirajte podatke",
+  "explorer.filtersDescription":
+    "Popunite jedno ili više polja da biste suzili rezultate.",
+  "explorer.codePrefix": "Prefiks šifre",
+  "explorer.codePrefixPlaceholder": "npr. 7208 ili 01",
+  "explorer.description": "Opis",
+  "explorer.descriptionPlaceholder": "npr. \"tub çeliku\"",
+  "explorer.descriptionHint":
+    "Pretražuju se albanski opisi, kao i srpski gde ih podaci sadrže. Unesite najmanje 3 slova (npr. \"vajra\" ili \"tub\") da biste videli odgovarajuće podšifre. Slova ë i ç mogu se uneti i kao e i c.",
+  "explorer.fuzzy": "Dozvoli greške u kucanju (približna pretraga)",
+  "explorer.suggest": "Predloži šifre: rangiraj najverovatnije tarifne linije",
+  "explorer.originHint": "Istaknuta kolona prikazuje carinsku stopu koja se primenjuje.",
+  "explorer.asOf": "Stope na dan",
+  "explorer.asOfHint": "Ostavite prazno za trenutne stope.",
+  "explorer.resultsTitle": "Rezultati",
+  "explorer.resultsDescription":
+    "Kliknite ikonu da proširite hijerarhiju šifara ili red da otvorite detalje šifre.",
+  "explorer.exportCsv": "Preuzmite trenutne rezultate kao CSV",
+  "explorer.exportXlsx": "Preuzmite trenutne rezultate kao Excel",
+  "explorer.copyLinkTitle": "Kopirajte link ka ovoj pretrazi",
+  "explorer.copyLink": "Kopiraj link",
+  "explorer.linkCopied": "Kopirano",
+  "explorer.topLevelCount": "{count} glavnih kategorija",
+  "explorer.searchShortcut": "Prečica:",
+
+  "filters.title": "Filtriraj po stopama (%), jedinici i merama",
+  "filters.min": "min",
+  "filters.max": "maks",
+  "filters.minFor": "{field} minimum",
+  "filters.maxFor": "{field} maksimum",
+  "filters.uom": "Jedinica",
+  "filters.uomPlaceholder": "npr. kg",
+  "filters.measure": "Mere",
+  "filters.measure.any": "Sve šifre",
+  "filters.measure.some": "Sa bilo kojom merom",
+  "filters.measure.import": "Sa uvoznom merom",
+  "filters.measure.export": "Sa izvoznom merom",
+  "filters.clear": "Obriši filtere",
+  "filters.hint":
+    "Granice su uključene: npr. CEFTA 0–0 pronalazi šifre bez CEFTA carine, a akciza min 0,01 šifre sa akcizom. Nadređene šifre se prikazuju radi konteksta.",
+
+  "column.code": "Šifra",
+  "column.description": "Opis",
+  "column.actions": "Radnje",
+  "column.validFrom": "Važi od",
+  "column.effectiveRate": "Stopa koja se primenjuje za izabrano poreklo",
+  "column.expand": "Proširi",
+  "column.collapse": "Skupi",
+  "column.focusCode": "{code} — označi ovu šifru u linku",
+  "column.calculate": "Izračunaj dažbine",
+  "column.calculateFor": "Izračunaj dažbine za {code}",
+  "column.historyFor": "Istorija stopa za {code}",
+  "column.compare": "Dodaj u poređenje",
+  "column.compareFor": "Uporedi {code}",
+  "column.compareFull": "Poređenje sadrži najviše {max} šifre",
+  "column.addToShipment": "Dodaj u pošiljku",
+  "column.addToShipmentFor": "Dodaj {code} u pošiljku",
+  "column.sort": "Sortiraj (Shift za više kolona)",
+  "column.resize": "Promeni širinu kolone",
+  "table.label": "Tarifne šifre",
+  "table.keyboardHint":
+    "Strelice gore i dole pomeraju između redova, levo i desno skupljaju ili proširuju šifru, Enter otvara detalje, a / prelazi na pretragu.",
+  "column.uom": "Jedinica",
+  "column.measures": "Mere",
+  "column.importMeasure": "Uvozna mera: {measure}",
+  "column.exportMeasure": "Izvozna mera: {measure}",
+  "column.import": "Uvoz",
+  "column.export": "Izvoz",
+  "column.document": "Otvori izvorni dokument za {code}",
+  "column.favorite": "Označi kao omiljenu",
+  "column.unfavorite": "Ukloni iz omiljenih",
+  "column.favoriteFor": "Omiljena: {code}",
+  "column.note": "Dodaj belešku",
+  "column.noteFor": "Beleška za {code}",
+
+  "columns.title": "Kolone",
+  "columns.moveLeft": "Pomeri {column} levo",
+  "columns.moveRight": "Pomeri {column} desno",
+  "columns.hint":
+    "Prevucite ivicu zaglavlja da promenite širinu; dvoklik je vraća. Sortiranje važi unutar svakog nivoa hijerarhije.",
+  "columns.reset": "Vrati početni raspored",
+
+  "compare.title": "Uporedi šifre",
+  "compare.description":
+    "Izaberite do {max} šifre dugmetom za poređenje u tabeli da biste ih videli jednu pored druge.",
+  "compare.open": "Uporedi ({count})",
+  "compare.hide": "Sakrij poređenje",
+  "compare.clear": "Očisti",
+  "compare.remove": "Ukloni {code} iz poređenja",
+  "compare.pickMore": "Izaberite još bar jednu šifru za poređenje.",
+  "compare.sampleValue": "Primer CIF vrednosti (€)",
+  "compare.path": "Putanja klasifikacije",
+  "compare.applies": "primenjuje se",
+  "compare.hint":
+    "Istaknute vrednosti se razlikuju između šifara; dažbine se računaju po carinskoj stopi za izabrano poreklo.",
+
+  "expansion.label": "Otvaranje redova",
+  "expansion.matches": "Do pogodaka",
+  "expansion.matchesTitle": "Otvori samo onoliko redova koliko je potrebno da se vide šifre koje odgovaraju pretrazi",
+  "expansion.depth": "Otvori do nivoa",
+  "expansion.depthOption": "Nivo {depth}",
+  "expansion.all": "Proširi sve",
+  "expansion.allTitle": "Otvori svaki red (sporo za celu tarifu)",
+  "expansion.none": "Skupi sve",
+
+  "hsSection.1": "Žive životinje; proizvodi životinjskog porekla",
+  "hsSection.2": "Proizvodi biljnog porekla",
+  "hsSection.3": "Masti i ulja životinjskog, biljnog ili mikrobnog porekla; voskovi",
+  "hsSection.4": "Prehrambeni proizvodi; pića, alkohol i sirće; duvan",
+  "hsSection.5": "Mineralni proizvodi",
+  "hsSection.6": "Proizvodi hemijske industrije i srodnih industrija",
+  "hsSection.7": "Plastične mase, kaučuk i proizvodi od njih",
+  "hsSection.8": "Sirove kože, štavljena koža, krzno; putni predmeti i ručne torbe",
+  "hsSection.9": "Drvo, pluta i proizvodi od njih; pletarski proizvodi",
+  "hsSection.10": "Drvna celuloza; papir i karton i proizvodi od njih",
+  "hsSection.11": "Tekstil i tekstilni proizvodi",
+  "hsSection.12": "Obuća, pokrivala za glavu, kišobrani; prerađeno perje; veštačko cveće",
+  "hsSection.13":
+    "Proizvodi od kamena, gipsa, cementa, azbesta, liskuna; keramički proizvodi; staklo",
+  "hsSection.14": "Biseri, drago kamenje i plemeniti metali; imitacija nakita; novac",
+  "hsSection.15": "Bazni metali i proizvodi od baznih metala",
+  "hsSection.16":
+    "Mašine i mehanički uređaji; električna oprema; aparati za snimanje i reprodukciju zvuka i slike",
+  "hsSection.17": "Vozila, vazduhoplovi, plovila i prateća transportna oprema",
+  "hsSection.18":
+    "Optički, fotografski, merni i medicinski instrumenti; časovnici; muzički instrumenti",
+  "hsSection.19": "Oružje i municija; delovi i pribor",
+  "hsSection.20": "Razni proizvodi",
+  "hsSection.21": "Umetnička dela, kolekcionarski predmeti i antikviteti",
+
+  "navigator.title": "Glave",
+  "navigator.description":
+    "Odeljci i glave Harmonizovanog sistema. Izaberite glavu da biste pretraživali unutar nje.",
+  "navigator.clear": "Sve glave",
+  "navigator.section": "Odeljak {roman}",
+  "navigator.chapter": "Glava {chapter}",
+  "navigator.summary": "{count} šifara · carina {duty} · PDV {vat}",
+
+  "favorites.only": "Samo omiljene ({count})",
+  "favorites.exportTitle": "Preuzmite omiljene i beleške kao JSON",
+  "favorites.import": "Uvezi",
+  "favorites.importTitle": "Uvezite omiljene iz JSON datoteke",
+  "favorites.imported": "Uvezeno šifara: {count}.",
+  "favorites.importFailed": "Datoteka nije pročitana. Izaberite JSON izvoz omiljenih.",
+  "favorites.noteTitle": "Beleška o šifri",
+  "favorites.closeNote": "Zatvori belešku",
+  "favorites.note": "Beleška",
+  "favorites.notePlaceholder": "npr. dobavljač, uslovi za licencu ili dogovorena klasifikacija",
+  "favorites.noteHint": "Beleške se čuvaju samo u ovom pregledaču; čuvanje beleške označava šifru kao omiljenu.",
+  "favorites.saveNote": "Sačuvaj belešku",
+
+  "rate.percentage": "Osnovna",
+  "rate.cefta": "CEFTA",
+  "rate.msa": "SSP",
+  "rate.trmtl": "STS TR",
+  "rate.tvsh": "PDV",
+  "rate.excise": "Akciza",
+
+  "origin.other": "Ostale zemlje (osnovna)",
+  "origin.eu": "Evropska unija (SSP)",
+  "origin.cefta": "Zemlje članice CEFTA",
+  "origin.tr": "Turska (STS)",
+  "origin.uk": "Ujedinjeno Kraljevstvo",
+
+  "duty.step.cif": "CIF vrednost",
+  "duty.step.duty": "Carina",
+  "duty.step.excise": "Akciza",
+  "duty.step.vat": "PDV",
+  "duty.step.total": "Ukupni trošak",
+
+  "calculator.title": "Kalkulator dažbina",
+  "calculator.close": "Zatvori kalkulator",
+  "calculator.value": "CIF vrednost (€)",
+  "calculator.valuePlaceholder": "npr. 1000",
+  "calculator.quantity": "Količina ({unit})",
+  "calculator.quantityPlaceholder": "npr. 10",
+  "calculator.step": "Korak",
+  "calculator.base": "Osnovica (€)",
+  "calculator.rate": "Stopa",
+  "calculator.amount": "Iznos (€)",
+  "calculator.perUnit": "Trošak po jedinici ({unit}):",
+  "calculator.note":
+    "Carina se obračunava na CIF vrednost, akciza na CIF vrednost uvećanu za carinu, a PDV na osnovicu koja uključuje carinu i akcizu.",
+
+  "suggest.title": "Predložene šifre",
+  "suggest.description":
+    "Tarifne linije rangirane prema vašem opisu. Računaju se i naslovi duž putanje koji se poklapaju, pa linija može biti visoko rangirana i kada njen tekst ne sadrži vaše reči.",
+  "suggest.none": "Nijedna tarifna linija ne odgovara ovom opisu.",
+  "suggest.path": "Putanja klasifikacije",
+  "suggest.rates": "Carina {duty} · PDV {vat}",
+  "suggest.confidence": "Pouzdanost {percent}%",
+  "suggest.showInTable": "Prikaži u tabeli",
+  "suggest.details": "Detalji",
+  "suggest.compare": "Uporedi",
+
+  "shipment.title": "Pošiljka / faktura",
+  "shipment.descriptionBefore": "Dodajte redove iz tabele pomoću ikone",
+  "shipment.descriptionAfter": "i izračunajte dažbine za celu fakturu.",
+  "shipment.close": "Zatvori pošiljku",
+  "shipment.saved": "Sačuvane pošiljke",
+  "shipment.choose": "— Izaberite pošiljku —",
+  "shipment.option": "{name} ({count} redova)",
+  "shipment.new": "Nova pošiljka",
+  "shipment.delete": "Obriši",
+  "shipment.name": "Naziv",
+  "shipment.defaultName": "Pošiljka {date}",
+  "shipment.addCode": "Dodaj tarifnu šifru",
+  "shipment.codePlaceholder": "npr. 87032190",
+  "shipment.add": "Dodaj",
+  "shipment.codeNotFound": "Šifra {code} nije pronađena.",
+  "shipment.addFailed": "Šifra {code} nije dodata. Pokušajte ponovo.",
+  "shipment.quantity": "Količina",
+  "shipment.total": "Ukupno",
+  "shipment.empty": "Pošiljka još nema redova.",
+  "shipment.codeMissing": "Šifra više ne postoji u podacima",
+  "shipment.valueFor": "CIF vrednost za {code}",
+  "shipment.quantityFor": "Količina za {code} ({unit})",
+  "shipment.removeLine": "Ukloni red {code}",
+  "shipment.grandTotal": "Ukupno za pošiljku",
+  "shipment.missingCodes":
+    "Šifre {codes} ne postoje u trenutnim podacima i nisu uključene u zbir.",
+
+  "history.title": "Istorija stopa",
+  "history.close": "Zatvori istoriju",
+  "history.empty": "Nema istorije za ovu šifru.",
+  "history.previous": "Ranije: {value}",
+
+  "changes.title": "Šta se promenilo u novim podacima",
+  "changes.replacedWith": "Sačuvani podaci su zamenjeni verzijom",
+  "changes.counts":
+    "Dodato šifara: {added}, uklonjeno: {removed}, sa promenjenim stopama: {changed}.",
+  "changes.acknowledge": "Razumem",
+  "changes.changedRates": "Promenjene stope ({count})",
+  "changes.added": "Dodate šifre ({count})",
+  "changes.removed": "Uklonjene šifre ({count})",
+  "changes.none": "Nema promena u tarifnim šiframa ili stopama.",
+  "watchlist.title": "Promene u označenim šiframa",
+  "watchlist.description": "Poslednje ažuriranje podataka promenilo je stope šifara koje ste označili zvezdicom.",
+  "watchlist.removed": "Uklonjeno iz tarife:",
+  "watchlist.acknowledge": "Razumem",
+  "changes.more": "… i još {count}",
+
+  "detail.back": "Nazad na pretraživač",
+  "detail.noCode": "Nije izabrana nijedna šifra.",
+  "detail.notFound": "Šifra {code} nije pronađena u podacima.",
+  "detail.breadcrumb": "Hijerarhija šifre",
+  "detail.unit": "Jedinica",
+  "detail.children": "Podšifre ({count})",
+  "detail.noChildren": "Ova šifra nema podšifre.",
+  "detail.siblings": "Šifre na istom nivou ({count})",
+  "detail.noSiblings": "Nema drugih šifara na ovom nivou.",
+  "detail.importMeasure": "Uvozna mera",
+  "detail.exportMeasure": "Izvozna mera",
+  "detail.document": "Izvorni dokument",
+
+  "uom.KGM": "kilogram",
+  "uom.GRM": "gram",
+  "uom.TNE": "metrička tona",
+  "uom.CTM": "metrički karat",
+  "uom.LTR": "litar",
+  "uom.LPA": "litar čistog alkohola",
+  "uom.HLT": "hektolitar",
+  "uom.MTR": "metar",
+  "uom.MTK": "kvadratni metar",
+  "uom.MTQ": "kubni metar",
+  "uom.NAR": "komad (broj artikala)",
+  "uom.NPR": "broj parova",
+  "uom.PAR": "par",
+  "uom.CEN": "sto komada",
+  "uom.MIL": "hiljadu komada",
+  "uom.KWH": "kilovat-čas",
+
+  "export.level": "Nivo",
+  "export.parentCode": "Nadređena šifra",
+  "export.matched": "Poklapa se",
+  "export.yes": "da",
+  "export.sheet": "Tarife",
+
+  "update.available": "Nova verzija aplikacije je spremna.",
+  "update.later": "Kasnije",
+  "update.reload": "Osveži",
+};
@@ -0,0 +1,40 @@
+import type { CustomsRecord } from "@/lib/database";
+import type { DutyRateField } from "@/lib/duty";
+
+export type OriginId = "eu" | "cefta" | "tr" | "uk" | "other";
+
+export type OriginOption = {
+  id: OriginId;
+  rateField: DutyRateField;
+};
+
+/**
+ * Origin groups and the tariff column that applies to each. The UK agreement
+ * carries over the MSA (Stabilisation and Association Agreement) schedule.
+ */
+export const ORIGIN_OPTIONS: OriginOption[] = [
+  { id: "other", rateField: "percentage" },
+  { id: "eu", rateField: "msa" },
+  { id: "cefta", rateField: "cefta" },
+  { id: "tr", rateField: "trmtl" },
+  { id: "uk", rateField: "msa" },
+];
+
+export const DEFAULT_ORIGIN: OriginId = "other";
+
+export function isOriginId(value: unknown): value is OriginId {
+  return ORIGIN_OPTIONS.some((option) => option.id === value);
+}
+
+export function getOriginOption(id: OriginId): OriginOption {
+  return (
+    ORIGIN_OPTIONS.find((option) => option.id === id) ?? ORIGIN_OPTIONS[0]
+  );
+}
+
+export function getEffectiveDutyRate(
+  record: Pick<CustomsRecord, DutyRateField>,
+  origin: OriginId,
+): number {
+  return record[getOriginOption(origin).rateField];
+}
@@ -0,0 +1,111 @@
+import type { CustomsRecord } from "@/lib/database";
+import { RATE_FIELDS, type RateField } from "@/lib/dataset-diff";
+
+/** Inclusive bounds; `null` leaves that side open. */
+export type RateRange = {
+  min: number | null;
+  max: number | null;
+};
+
+/** Codes carrying a supplementary measure: either kind, or one in particular. */
+export const MEASURE_FILTERS = ["some", "import", "export"] as const;
+
+export type MeasureFilter = (typeof MEASURE_FILTERS)[number];
+
+export type RecordFilters = {
+  ranges: Partial<Record<RateField, RateRange>>;
+  uomCode: string | null;
+  measure: MeasureFilter | null;
+};
+
+export const EMPTY_FILTERS: RecordFilters = {
+  ranges: {},
+  uomCode: null,
+  measure: null,
+};
+
+export function isMeasureFilter(value: unknown): value is MeasureFilter {
+  return MEASURE_FILTERS.includes(value as MeasureFilter);
+}
+
+function isBounded(range: RateRange | undefined): range is RateRange {
+  return Boolean(range) && (range!.min !== null || range!.max !== null);
+}
+
+export function hasActiveFilters(
+  filters: RecordFilters | null | undefined,
+): filters is RecordFilters {
+  if (!filters) return false;
+  return Boolean(filters.uomCode) || Boolean(filters.measure) ||
+    RATE_FIELDS.some((field) => isBounded(filters.ranges[field]));
+}
+
+export function matchesFilters(
+  record: CustomsRecord,
+  filters: RecordFilters,
+): boolean {
+  if (
+    filters.uomCode &&
+    (record.uomCode ?? "").toLowerCase() !== filters.uomCode.toLowerCase()
+  ) {
+    return false;
+  }
+  if (filters.measure) {
+    const hasImport = Boolean(record.importMeasure);
+    const hasExport = Boolean(record.exportMeasure);
+    const matches = filters.measure === "import"
+      ? hasImport
+      : filters.measure === "export"
+        ? hasExport
+        : hasImport || hasExport;
+    if (!matches) return false;
+  }
+  return RATE_FIELDS.every((field) => {
+    const range = filters.ranges[field];
+    if (!isBounded(range)) return true;
+    const value = record[field];
+    if (range.min !== null && !(value >= range.min)) return false;
+    if (range.max !== null && !(value <= range.max)) return false;
+    return true;
+  });
+}
+
+/** Returns the ranges with `field` updated, dropping it once both sides are open. */
+export function setRateRange(
+  ranges: RecordFilters["ranges"],
+  field: RateField,
+  range: RateRange,
+): RecordFilters["ranges"] {
+  const next = { ...ranges };
+  if (isBounded(range)) next[field] = range;
+  else delete next[field];
+  return next;
+}
+
+function parseBound(value: string | undefined): number | null {
+  if (!value) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/** Parses `cefta:0..0,excise:0.01..` into ranges, skipping unknown fields. */
+export function parseRateRanges(value: string | null): RecordFilters["ranges"] {
+  const ranges: RecordFilters["ranges"] = {};
+  if (!value) return ranges;
+  for (const item of value.split(",")) {
+    const [field, bounds = ""] = item.trim().split(":");
+    if (!RATE_FIELDS.includes(field as RateField)) continue;
+    const [min, max] = bounds.split("..");
+    const range = { min: parseBound(min), max: parseBound(max) };
+    if (isBounded(range)) ranges[field as RateField] = range;
+  }
+  return ranges;
+}
+
+export function serializeRateRanges(ranges: RecordFilters["ranges"]): string {
+  return RATE_FIELDS.flatMap((field) => {
+    const range = ranges[field];
+    if (!isBounded(range)) return [];
+    return [`${field}:${range.min ?? ""}..${range.max ?? ""}`];
+  }).join(",");
+}
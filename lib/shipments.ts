@@ -0,0 +1,135 @@
+import {
+  getDb,
+  type CustomsRecord,
+  type ShipmentLine,
+  type ShipmentRecord,
+} from "@/lib/database";
+import {
+  calculateLandedCost,
+  parseAmount,
+  roundMoney,
+  type LandedCostBreakdown,
+} from "@/lib/duty";
+import { getOriginOption, type OriginId } from "@/lib/origin";
+
+export type ShipmentLineResult = {
+  line: ShipmentLine;
+  record: CustomsRecord | null;
+  breakdown: LandedCostBreakdown | null;
+};
+
+export type ShipmentTotals = {
+  value: number;
+  duty: number;
+  excise: number;
+  vat: number;
+  total: number;
+};
+
+export type ShipmentSummary = {
+  lines: ShipmentLineResult[];
+  totals: ShipmentTotals;
+  /** Lines whose code no longer exists in the dataset. */
+  missingCodes: string[];
+};
+
+function createLineId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function createShipment(origin: OriginId, name: string): ShipmentRecord {
+  const now = new Date().toISOString();
+  return {
+    name,
+    origin,
+    lines: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function createShipmentLine(code: string): ShipmentLine {
+  return { id: createLineId(), code, value: "", quantity: "" };
+}
+
+export function summarizeShipment(
+  shipment: Pick<ShipmentRecord, "lines" | "origin">,
+  records: Map<string, CustomsRecord>,
+): ShipmentSummary {
+  const rateField = getOriginOption(shipment.origin).rateField;
+  const totals: ShipmentTotals = {
+    value: 0,
+    duty: 0,
+    excise: 0,
+    vat: 0,
+    total: 0,
+  };
+  const missingCodes: string[] = [];
+
+  const lines = shipment.lines.map((line) => {
+    const record = records.get(line.code) ?? null;
+    if (!record) {
+      missingCodes.push(line.code);
+      return { line, record, breakdown: null };
+    }
+    const breakdown = calculateLandedCost(record, {
+      value: parseAmount(line.value),
+      quantity: parseAmount(line.quantity) || null,
+      rateField,
+    });
+    totals.value += breakdown.value;
+    totals.duty += breakdown.duty;
+    totals.excise += breakdown.excise;
+    totals.vat += breakdown.vat;
+    totals.total += breakdown.total;
+    return { line, record, breakdown };
+  });
+
+  return {
+    lines,
+    totals: {
+      value: roundMoney(totals.value),
+      duty: roundMoney(totals.duty),
+      excise: roundMoney(totals.excise),
+      vat: roundMoney(totals.vat),
+      total: roundMoney(totals.total),
+    },
+    missingCodes,
+  };
+}
+
+export class ShipmentService {
+  static async list(): Promise<ShipmentRecord[]> {
+    try {
+      const db = getDb();
+      return await db.shipments.orderBy("updatedAt").reverse().toArray();
+    } catch (error) {
+      console.error("Error listing shipments:", error);
+      return [];
+    }
+  }
+
+  static async get(id: number): Promise<ShipmentRecord | null> {
+    try {
+      const db = getDb();
+      return (await db.shipments.get(id)) ?? null;
+    } catch (error) {
+      console.error("Error fetching shipment:", { id, error });
+      return null;
+    }
+  }
+
+  static async save(shipment: ShipmentRecord): Promise<ShipmentRecord> {
+    const db = getDb();
+    const next = { ...shipment, updatedAt: new Date().toISOString() };
+    const id = await db.shipments.put(next);
+    return { ...next, id };
+  }
+
+  static async remove(id: number): Promise<void> {
+    const db = getDb();
+    await db.shipments.delete(id);
+  }
+}
@@ -0,0 +1,107 @@
+import type { CustomsRecord } from "@/lib/database";
+
+export const MAX_SUGGESTIONS = 10;
+
+// How much a matching heading above a line counts next to the line's own match
+const ANCESTOR_WEIGHT = 0.5;
+
+/** A description hit: MiniSearch relevance and the query terms it matched. */
+export type DescriptionHit = {
+  score: number;
+  terms: string[];
+};
+
+export type SuggestionPathEntry = {
+  code: string;
+  description: string;
+  /** The description matched at least one query term. */
+  matched: boolean;
+};
+
+export type CodeSuggestion = {
+  record: CustomsRecord;
+  /** Path relevance, already scaled by `coverage`. */
+  score: number;
+  /** 0–1: the suggestion's share of the listed scores. */
+  confidence: number;
+  /** Share of the query terms found along the path. */
+  coverage: number;
+  /** Root first, ending with the suggested line. */
+  path: SuggestionPathEntry[];
+};
+
+type RankOptions = {
+  /** Distinct processed terms in the query. */
+  queryTermCount: number;
+  codePrefix?: string;
+  limit?: number;
+};
+
+/**
+ * The path of every tariff line (code without children), root first and
+ * ending with the line. Built once per dataset and reused for each query.
+ */
+export function buildLinePaths(rows: CustomsRecord[]): CustomsRecord[][] {
+  const byCode = new Map(rows.map((row) => [row.code, row]));
+  const paths: CustomsRecord[][] = [];
+  for (const row of rows) {
+    if (row.childCount) continue;
+    const path = [row];
+    let parent = row.parentCode ? byCode.get(row.parentCode) : undefined;
+    while (parent) {
+      path.unshift(parent);
+      parent = parent.parentCode ? byCode.get(parent.parentCode) : undefined;
+    }
+    paths.push(path);
+  }
+  return paths;
+}
+
+/**
+ * Ranks tariff lines for a product description. A line scores its own hit
+ * plus half of every hit on its ancestors, scaled by how many query terms
+ * the whole path covers, so a line under a matching heading beats one that
+ * only shares a single word.
+ */
+export function rankSuggestions(
+  linePaths: CustomsRecord[][],
+  hits: ReadonlyMap<string, DescriptionHit>,
+  { queryTermCount, codePrefix = "", limit = MAX_SUGGESTIONS }: RankOptions,
+): CodeSuggestion[] {
+  if (hits.size === 0) return [];
+
+  const ranked: Omit<CodeSuggestion, "confidence">[] = [];
+  for (const path of linePaths) {
+    const row = path[path.length - 1];
+    if (!row.code.startsWith(codePrefix)) continue;
+    let score = 0;
+    const terms = new Set<string>();
+    for (const entry of path) {
+      const hit = hits.get(entry.code);
+      if (!hit) continue;
+      score += entry === row ? hit.score : hit.score * ANCESTOR_WEIGHT;
+      hit.terms.forEach((term) => terms.add(term));
+    }
+    if (score === 0) continue;
+    const coverage = Math.min(1, terms.size / Math.max(1, queryTermCount));
+    ranked.push({
+      record: row,
+      score: score * coverage,
+      coverage,
+      path: path.map((entry) => ({
+        code: entry.code,
+        description: entry.description,
+        matched: hits.has(entry.code),
+      })),
+    });
+  }
+
+  const top = ranked
+    .sort((a, b) => b.score - a.score || a.record.code.localeCompare(b.record.code))
+    .slice(0, limit);
+  const total = top.reduce((sum, suggestion) => sum + suggestion.score, 0);
+  return top.map((suggestion) => ({
+    ...suggestion,
+    confidence: total > 0 ? suggestion.score / total : 0,
+  }));
+}
@@ -0,0 +1,96 @@
+import type {
+  ColumnOrderState,
+  ColumnSizingState,
+  SortingState,
+  VisibilityState,
+} from "@tanstack/react-table";
+
+/** Table layout the visitor chose, persisted per browser. */
+export type TablePreferences = {
+  /** Column ids in display order; unknown ids are ignored, missing ones trail. */
+  columnOrder: ColumnOrderState;
+  columnVisibility: VisibilityState;
+  /** Widths in px for columns the visitor resized. */
+  columnSizing: ColumnSizingState;
+  /** Applied to every level of the tree separately. */
+  sorting: SortingState;
+};
+
+export const DEFAULT_TABLE_PREFERENCES: TablePreferences = {
+  columnOrder: [],
+  columnVisibility: {},
+  columnSizing: {},
+  sorting: [],
+};
+
+function isRecordOf<T>(
+  value: unknown,
+  isValue: (item: unknown) => item is T,
+): value is Record<string, T> {
+  return (
+    Boolean(value) &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value as object).every(isValue)
+  );
+}
+
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+const isWidth = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/** Reads stored JSON, falling back to the defaults for anything malformed. */
+export function parseTablePreferences(raw: string | null): TablePreferences {
+  if (!raw) return DEFAULT_TABLE_PREFERENCES;
+  let value: Partial<Record<keyof TablePreferences, unknown>>;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return DEFAULT_TABLE_PREFERENCES;
+  }
+  if (!value || typeof value !== "object") return DEFAULT_TABLE_PREFERENCES;
+
+  const { columnOrder, columnVisibility, columnSizing, sorting } = value;
+  return {
+    columnOrder: Array.isArray(columnOrder)
+      ? columnOrder.filter((id): id is string => typeof id === "string")
+      : [],
+    columnVisibility: isRecordOf(columnVisibility, isBoolean)
+      ? columnVisibility
+      : {},
+    columnSizing: isRecordOf(columnSizing, isWidth) ? columnSizing : {},
+    sorting: Array.isArray(sorting)
+      ? sorting.filter(
+        (item): item is SortingState[number] =>
+          typeof item?.id === "string" && typeof item?.desc === "boolean",
+      )
+      : [],
+  };
+}
+
+/** The stored order resolved against the columns that actually exist. */
+export function resolveColumnOrder(
+  columnOrder: ColumnOrderState,
+  columnIds: string[],
+): string[] {
+  const known = new Set(columnIds);
+  const ordered = columnOrder.filter((id) => known.has(id));
+  const placed = new Set(ordered);
+  return [...ordered, ...columnIds.filter((id) => !placed.has(id))];
+}
+
+/** Moves `id` by `offset` places, keeping the ids listed in `fixed` in place. */
+export function moveColumn(
+  order: string[],
+  id: string,
+  offset: number,
+  fixed: string[] = [],
+): string[] {
+  const from = order.indexOf(id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= order.length) return order;
+  if (fixed.includes(id) || fixed.includes(order[to])) return order;
+  const next = [...order];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
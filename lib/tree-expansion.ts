@@ -0,0 +1,144 @@
+import type { CustomsTreeNode } from "@/lib/database";
+
+/**
+ * How rows open by default: everything, just enough to reveal the matching
+ * codes, down to a fixed depth, or nothing below the chapters.
+ */
+export const EXPANSION_MODES = ["all", "matches", "depth", "none"] as const;
+
+export type ExpansionMode = (typeof EXPANSION_MODES)[number];
+
+export type TreeExpansion = {
+  mode: ExpansionMode;
+  /** Levels opened by the "depth" mode; 1 opens the chapters only. */
+  depth: number;
+  /**
+   * Rows toggled by hand against the mode. Codes missing from the current
+   * results are kept so the choice survives a new search.
+   */
+  expanded: string[];
+  collapsed: string[];
+};
+
+export const MAX_EXPANSION_DEPTH = 4;
+
+/** Manual toggles kept per list; the oldest drop first so links stay short. */
+export const MAX_EXPANSION_TOGGLES = 200;
+
+export const DEFAULT_EXPANSION: TreeExpansion = {
+  mode: "matches",
+  depth: 1,
+  expanded: [],
+  collapsed: [],
+};
+
+export function isExpansionMode(value: unknown): value is ExpansionMode {
+  return EXPANSION_MODES.includes(value as ExpansionMode);
+}
+
+/** Starts the given mode afresh, dropping the manual toggles. */
+export function setExpansionMode(
+  mode: ExpansionMode,
+  depth = DEFAULT_EXPANSION.depth,
+): TreeExpansion {
+  return { mode, depth, expanded: [], collapsed: [] };
+}
+
+/**
+ * Drops toggles the mode already implies ("all" opens every row, "none"
+ * leaves every row shut) and keeps only the latest ones in each list.
+ */
+export function pruneToggles(expansion: TreeExpansion): TreeExpansion {
+  const expanded = expansion.mode === "all" ? [] : expansion.expanded;
+  const collapsed = expansion.mode === "none" ? [] : expansion.collapsed;
+  return {
+    ...expansion,
+    expanded: expanded.slice(-MAX_EXPANSION_TOGGLES),
+    collapsed: collapsed.slice(-MAX_EXPANSION_TOGGLES),
+  };
+}
+
+/**
+ * Whether each expandable code is open under the mode alone. In "matches"
+ * mode a row opens when a match sits somewhere below it.
+ */
+function expandedByMode(
+  nodes: CustomsTreeNode[],
+  expansion: TreeExpansion,
+  isMatch: (node: CustomsTreeNode) => boolean,
+): Map<string, boolean> {
+  const result = new Map<string, boolean>();
+  // Returns whether the node or any descendant matches
+  const visit = (node: CustomsTreeNode, depth: number): boolean => {
+    let matchBelow = false;
+    for (const child of node.subRows) {
+      if (visit(child, depth + 1)) matchBelow = true;
+    }
+    if (node.subRows.length > 0) {
+      result.set(
+        node.code,
+        expansion.mode === "all" ||
+          (expansion.mode === "depth" && depth < expansion.depth) ||
+          (expansion.mode === "matches" && matchBelow),
+      );
+    }
+    return matchBelow || isMatch(node);
+  };
+  nodes.forEach((node) => visit(node, 0));
+  return result;
+}
+
+/** The open rows, keyed by code as the table's `expanded` state expects. */
+export function resolveExpandedCodes(
+  nodes: CustomsTreeNode[],
+  expansion: TreeExpansion,
+  isMatch: (node: CustomsTreeNode) => boolean,
+): Record<string, boolean> {
+  const expanded = new Set(expansion.expanded);
+  const collapsed = new Set(expansion.collapsed);
+  const open: Record<string, boolean> = {};
+  for (const [code, byMode] of expandedByMode(nodes, expansion, isMatch)) {
+    if (expanded.has(code) || (byMode && !collapsed.has(code))) {
+      open[code] = true;
+    }
+  }
+  return open;
+}
+
+/**
+ * Records the rows whose new state differs from the mode as manual toggles,
+ * leaving toggles for codes outside the current results untouched.
+ */
+export function applyExpandedCodes(
+  nodes: CustomsTreeNode[],
+  expansion: TreeExpansion,
+  isMatch: (node: CustomsTreeNode) => boolean,
+  next: Record<string, boolean> | true,
+): TreeExpansion {
+  const byMode = expandedByMode(nodes, expansion, isMatch);
+  const expanded = expansion.expanded.filter((code) => !byMode.has(code));
+  const collapsed = expansion.collapsed.filter((code) => !byMode.has(code));
+  for (const [code, open] of byMode) {
+    const isOpen = next === true || Boolean(next[code]);
+    if (isOpen && !open) expanded.push(code);
+    if (!isOpen && open) collapsed.push(code);
+  }
+  return pruneToggles({ ...expansion, expanded, collapsed });
+}
+
+/** Opens the given rows by hand, e.g. the ancestors of a code to scroll to. */
+export function revealCodes(
+  expansion: TreeExpansion,
+  codes: string[],
+): TreeExpansion {
+  const reveal = new Set(codes);
+  // Re-adding a code moves it to the end, so it outlives older toggles
+  return pruneToggles({
+    ...expansion,
+    expanded: [
+      ...expansion.expanded.filter((code) => !reveal.has(code)),
+      ...reveal,
+    ],
+    collapsed: expansion.collapsed.filter((code) => !reveal.has(code)),
+  });
+}
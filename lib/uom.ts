@@ -0,0 +1,41 @@
+import type { Translate } from "@/lib/i18n";
+
+/**
+ * Supplementary units used in the tariff (UN/ECE Recommendation 20 codes).
+ * Names live in the catalogs under `uom.<code>`.
+ */
+export const UOM_CODES = [
+  "KGM",
+  "GRM",
+  "TNE",
+  "CTM",
+  "LTR",
+  "LPA",
+  "HLT",
+  "MTR",
+  "MTK",
+  "MTQ",
+  "NAR",
+  "NPR",
+  "PAR",
+  "CEN",
+  "MIL",
+  "KWH",
+] as const;
+
+export type UomCode = (typeof UOM_CODES)[number];
+
+function toUomCode(code: string): UomCode | null {
+  const upper = code.trim().toUpperCase();
+  return UOM_CODES.includes(upper as UomCode) ? (upper as UomCode) : null;
+}
+
+/** Readable unit name, or the raw code when the glossary does not know it. */
+export function describeUom(
+  code: string | null | undefined,
+  t: Translate,
+): string | null {
+  if (!code) return null;
+  const known = toUomCode(code);
+  return known ? t(`uom.${known}`) : code;
+}
@@ -0,0 +1,131 @@
+import { MAX_COMPARED_CODES } from "@/lib/compare";
+import { DEFAULT_ORIGIN, isOriginId, type OriginId } from "@/lib/origin";
+import {
+  isMeasureFilter,
+  parseRateRanges,
+  serializeRateRanges,
+  type RecordFilters,
+} from "@/lib/record-filters";
+import {
+  DEFAULT_EXPANSION,
+  MAX_EXPANSION_DEPTH,
+  isExpansionMode,
+  pruneToggles,
+  type TreeExpansion,
+} from "@/lib/tree-expansion";
+
+export type ExplorerUrlState = {
+  code: string;
+  q: string;
+  origin: OriginId;
+  asOf: string;
+  /** Rate ranges, written as `cefta:0..0,excise:0.01..`, unit and measures. */
+  filters: RecordFilters;
+  /** Show starred codes only. */
+  favoritesOnly: boolean;
+  /** Rank likely tariff lines for the description query. */
+  suggest: boolean;
+  /** Code to scroll to and highlight. */
+  focus: string | null;
+  /** Expansion mode (`expand`, `depth`) and rows toggled by hand. */
+  expansion: TreeExpansion;
+  /** Codes in the compare tray. */
+  compare: string[];
+};
+
+type SearchParamsLike = Pick<URLSearchParams, "get">;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDepth(value: string | null): number {
+  const depth = Number(value);
+  return Number.isInteger(depth) && depth >= 1
+    ? Math.min(depth, MAX_EXPANSION_DEPTH)
+    : DEFAULT_EXPANSION.depth;
+}
+
+function parseList(value: string | null): string[] {
+  if (!value) return [];
+  return Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean),
+    ),
+  );
+}
+
+export function parseExplorerUrlState(
+  params: SearchParamsLike,
+): ExplorerUrlState {
+  const origin = params.get("origin");
+  const asOf = params.get("asOf") ?? "";
+  const measure = params.get("measure");
+  const expand = params.get("expand");
+  return {
+    code: params.get("code")?.trim() ?? "",
+    q: params.get("q") ?? "",
+    origin: isOriginId(origin) ? origin : DEFAULT_ORIGIN,
+    asOf: DATE_PATTERN.test(asOf) ? asOf : "",
+    filters: {
+      ranges: parseRateRanges(params.get("rates")),
+      uomCode: params.get("uom")?.trim() || null,
+      measure: isMeasureFilter(measure) ? measure : null,
+    },
+    favoritesOnly: params.get("favorites") === "1",
+    suggest: params.get("suggest") === "1",
+    focus: params.get("focus")?.trim() || null,
+    expansion: pruneToggles({
+      mode: isExpansionMode(expand) ? expand : DEFAULT_EXPANSION.mode,
+      depth: parseDepth(params.get("depth")),
+      expanded: parseList(params.get("expanded")),
+      collapsed: parseList(params.get("collapsed")),
+    }),
+    compare: parseList(params.get("compare")).slice(0, MAX_COMPARED_CODES),
+  };
+}
+
+/** Query string for the state, omitting defaults so links stay short. */
+export function serializeExplorerUrlState(state: ExplorerUrlState): string {
+  const params = new URLSearchParams();
+  if (state.code) params.set("code", state.code);
+  if (state.q) params.set("q", state.q);
+  if (state.origin !== DEFAULT_ORIGIN) params.set("origin", state.origin);
+  if (state.asOf) params.set("asOf", state.asOf);
+  const rates = serializeRateRanges(state.filters.ranges);
+  if (rates) params.set("rates", rates);
+  if (state.filters.uomCode) params.set("uom", state.filters.uomCode);
+  if (state.filters.measure) params.set("measure", state.filters.measure);
+  if (state.favoritesOnly) params.set("favorites", "1");
+  if (state.suggest) params.set("suggest", "1");
+  if (state.focus) params.set("focus", state.focus);
+  const expansion = pruneToggles(state.expansion);
+  if (expansion.mode !== DEFAULT_EXPANSION.mode) {
+    params.set("expand", expansion.mode);
+  }
+  if (expansion.mode === "depth") params.set("depth", String(expansion.depth));
+  if (expansion.expanded.length > 0) {
+    params.set("expanded", expansion.expanded.join(","));
+  }
+  if (expansion.collapsed.length > 0) {
+    params.set("collapsed", expansion.collapsed.join(","));
+  }
+  if (state.compare.length > 0) params.set("compare", state.compare.join(","));
+  return params.toString();
+}
+
+/**
+ * Replaces the current history entry without a Next.js navigation. The
+ * pathname already carries the static-export `basePath`.
+ */
+export function replaceUrlQuery(query: string): void {
+  if (typeof window === "undefined") return;
+  const next = `${window.location.pathname}${query ? `?${query}` : ""}${
+    window.location.hash
+  }`;
+  const current = `${window.location.pathname}${window.location.search}${
+    window.location.hash
+  }`;
+  if (next !== current) window.history.replaceState(null, "", next);
+}
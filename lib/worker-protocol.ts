@@ -0,0 +1,93 @@
+import type { ComparedCode } from "@/lib/compare";
+import type {
+  CodeDetail,
+  CustomsRecord,
+  CustomsTreeNode,
+  InitializationProgress,
+  SearchOptions,
+} from "@/lib/database";
+import type { DatasetChanges, WatchlistAlert } from "@/lib/dataset-diff";
+import type { ChapterSummary } from "@/lib/hs-sections";
+import type { CodeSuggestion } from "@/lib/suggest";
+
+/** Serializable search options (the worker owns the abort signal). */
+export type WorkerSearchOptions = Omit<SearchOptions, "signal">;
+
+/** Methods the customs worker answers, with their params and results. */
+export type WorkerMethods = {
+  initialize: {
+    params: { force?: boolean };
+    result: boolean;
+  };
+  search: {
+    params: {
+      idPrefix: string;
+      descQuery: string;
+      options: WorkerSearchOptions;
+    };
+    result: CustomsTreeNode[];
+  };
+  suggest: {
+    params: {
+      query: string;
+      idPrefix: string;
+      fuzzy?: WorkerSearchOptions["fuzzy"];
+    };
+    result: CodeSuggestion[];
+  };
+  getRecords: {
+    params: { codes: string[] };
+    result: Map<string, CustomsRecord>;
+  };
+  getHistory: {
+    params: { code: string };
+    result: CustomsRecord[];
+  };
+  getCodeDetail: {
+    params: { code: string };
+    result: CodeDetail | null;
+  };
+  getDatasetChanges: {
+    params: Record<string, never>;
+    result: DatasetChanges | null;
+  };
+  acknowledgeDatasetChanges: {
+    params: Record<string, never>;
+    result: void;
+  };
+  getWatchlistAlerts: {
+    params: Record<string, never>;
+    result: WatchlistAlert[];
+  };
+  acknowledgeWatchlistAlerts: {
+    params: Record<string, never>;
+    result: void;
+  };
+  getChapterSummaries: {
+    params: Record<string, never>;
+    result: ChapterSummary[];
+  };
+  getComparedCodes: {
+    params: { codes: string[]; asOf: string };
+    result: ComparedCode[];
+  };
+};
+
+export type WorkerMethod = keyof WorkerMethods;
+
+export type WorkerRequest =
+  | {
+    [K in WorkerMethod]: {
+      type: "call";
+      id: number;
+      method: K;
+      params: WorkerMethods[K]["params"];
+    };
+  }[WorkerMethod]
+  | { type: "cancel"; id: number };
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: InitializationProgress }
+  | { type: "result"; id: number; result: WorkerMethods[WorkerMethod]["result"] }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; message: string };
@@ -1,3 +1,6 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
 import type { NextConfig } from "next";
 
 const buildTime = new Date()
@@ -6,8 +9,18 @@ const buildTime = new Date()
   .join(" ")
   .replace(/\.[0-9]+Z$/, "");
 
+const basePath = "/kosovo_customs_explorer";
+
+const datasetPath = path.join(process.cwd(), "data", "tarrifs.json");
+const datasetVersion = existsSync(datasetPath)
+  ? createHash("sha256")
+    .update(readFileSync(datasetPath))
+    .digest("hex")
+    .slice(0, 16)
+  : "unknown";
+
 const nextConfig: NextConfig = {
-  basePath: "/kosovo_customs_explorer",
+  basePath,
   reactStrictMode: true,
   reactCompiler: true,
   output: "export",
@@ -16,6 +29,8 @@ const nextConfig: NextConfig = {
   },
   env: {
     NEXT_PUBLIC_BUILD_TIME: buildTime,
+    NEXT_PUBLIC_DATASET_VERSION: datasetVersion,
+    NEXT_PUBLIC_BASE_PATH: basePath,
   },
 };
 
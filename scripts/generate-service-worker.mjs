@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+import { createHash } from "node:crypto";
+import { readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.resolve(__dirname, "..");
+const OUT_DIR = path.join(ROOT, "out");
+const TEMPLATE_PATH = path.join(__dirname, "sw-template.js");
+const SW_FILE = "sw.js";
+
+const SKIP_PATTERNS = [/\.map$/, /^sw\.js$/, /\.DS_Store$/];
+
+async function listFiles(dir, prefix = "") {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = [];
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path.join(dir, entry.name), relative)));
+    } else if (!SKIP_PATTERNS.some((pattern) => pattern.test(relative))) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+// Static hosts serve `code.html` at `code` and `index.html` at the root, so
+// pages are cached under the URL the browser navigates to.
+function toPrecachePath(file) {
+  if (file === "index.html") return "./";
+  if (file.endsWith("/index.html")) return file.slice(0, -"index.html".length);
+  if (file.endsWith(".html") && file !== "404.html") return file.slice(0, -".html".length);
+  return file;
+}
+
+async function main() {
+  const files = (await listFiles(OUT_DIR)).sort();
+  if (!files.includes("index.html")) {
+    throw new Error(`No static export found in ${OUT_DIR}. Run "next build" first.`);
+  }
+
+  const hash = createHash("sha256");
+  for (const file of files) {
+    hash.update(file);
+    hash.update(await readFile(path.join(OUT_DIR, file)));
+  }
+  const cacheVersion = hash.digest("hex").slice(0, 16);
+  const precachePaths = files.map(toPrecachePath);
+
+  const template = await readFile(TEMPLATE_PATH, "utf8");
+  const source = template
+    .replace('"__CACHE_VERSION__"', JSON.stringify(cacheVersion))
+    .replace("[] /* __PRECACHE_PATHS__ */", JSON.stringify(precachePaths, null, 2));
+  await writeFile(path.join(OUT_DIR, SW_FILE), source, "utf8");
+
+  console.log(
+    `Wrote ${SW_FILE} (cache ${cacheVersion}) precaching ${precachePaths.length} files.`,
+  );
+}
+
+main().catch((error) => {
+  console.error("Failed to generate service worker:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,65 @@
+// Service worker template. `generate-service-worker.mjs` fills in the
+// cache version and the precache list after `next build` and writes the
+// result to `out/sw.js`. Paths are relative to the registration scope, so
+// the same file works under any basePath.
+
+const CACHE_VERSION = "__CACHE_VERSION__";
+const PRECACHE_PATHS = [] /* __PRECACHE_PATHS__ */;
+
+const CACHE_PREFIX = "customs-explorer-";
+const CACHE_NAME = `${CACHE_PREFIX}${CACHE_VERSION}`;
+const SCOPE = self.registration.scope;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      cache.addAll(
+        PRECACHE_PATHS.map((path) => new Request(new URL(path, SCOPE), { cache: "reload" })),
+      ),
+    ),
+  );
+  // Stay in "waiting" until the page asks to update, so an open tab never
+  // mixes chunks from two builds.
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+async function respond(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+
+  try {
+    return await fetch(request);
+  } catch (error) {
+    // Offline navigation to a page that was not precached: serve the shell
+    if (request.mode === "navigate") {
+      const shell = await cache.match(new URL("./", SCOPE));
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || !request.url.startsWith(SCOPE)) return;
+  event.respondWith(respond(request));
+});
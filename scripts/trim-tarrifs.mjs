@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { readFile, writeFile, stat } from "node:fs/promises";
+import { existsSync } from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 
@@ -15,8 +16,16 @@ const KEEP_FIELDS = new Set([
   "excise",
   "validFrom",
   "uomCode",
+  "importMeasure",
+  "exportMeasure",
+  "fileUrl",
+]);
+const NULLABLE_FIELDS = new Set([
+  "uomCode",
+  "importMeasure",
+  "exportMeasure",
+  "fileUrl",
 ]);
-const NULLABLE_FIELDS = new Set(["uomCode"]);
 const NUMBER_FIELDS = new Set([
   "percentage",
   "cefta",
@@ -25,11 +34,24 @@ const NUMBER_FIELDS = new Set([
   "tvsh",
   "excise",
 ]);
-const STRING_FIELDS = new Set(["code", "description", "validFrom", "uomCode"]);
+const STRING_FIELDS = new Set([
+  "code",
+  "description",
+  "validFrom",
+  "uomCode",
+  "importMeasure",
+  "exportMeasure",
+  "fileUrl",
+]);
+// Extra description languages; Albanian stays in `description`.
+const DESCRIPTION_LANGUAGES = ["en", "sr"];
+// Source descriptions are matched on the first 8 digits (the EU CN level).
+const DESCRIPTION_KEY_LENGTH = 8;
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.resolve(__dirname, "..");
 const DATA_PATH = path.join(ROOT, "data", "tarrifs.json");
+const DESCRIPTIONS_DIR = path.join(ROOT, "data", "descriptions");
 
 function normalizeValue(key, value) {
   if (NUMBER_FIELDS.has(key)) {
@@ -44,6 +66,63 @@ function normalizeValue(key, value) {
   return value ?? null;
 }
 
+function toDescriptionKey(code) {
+  const digits = String(code).replace(/\D/g, "");
+  return digits.slice(0, DESCRIPTION_KEY_LENGTH);
+}
+
+/**
+ * Reads `data/descriptions/<lang>.json` when present: either an object of
+ * code -> description or an array of `{ code, description }` rows, with CN
+ * codes in any spacing ("7304 11 00" or "73041100").
+ */
+async function loadDescriptionSources() {
+  const sources = new Map();
+  for (const language of DESCRIPTION_LANGUAGES) {
+    const filePath = path.join(DESCRIPTIONS_DIR, `${language}.json`);
+    if (!existsSync(filePath)) continue;
+    const parsed = JSON.parse(await readFile(filePath, "utf8"));
+    const entries = Array.isArray(parsed)
+      ? parsed.map((row) => [row?.code, row?.description])
+      : Object.entries(parsed ?? {});
+    const byKey = new Map();
+    for (const [code, description] of entries) {
+      if (code == null || typeof description !== "string") continue;
+      const key = toDescriptionKey(code);
+      const text = description.trim();
+      // The first (least specific) entry for a key wins
+      if (key && text && !byKey.has(key)) byKey.set(key, text);
+    }
+    sources.set(language, byKey);
+  }
+  return sources;
+}
+
+function normalizeDescriptions(value) {
+  if (!value || typeof value !== "object") return {};
+  const descriptions = {};
+  for (const language of DESCRIPTION_LANGUAGES) {
+    const text = value[language];
+    if (typeof text === "string" && text.trim()) descriptions[language] = text.trim();
+  }
+  return descriptions;
+}
+
+function attachDescriptions(record, source, sources, matchCounts) {
+  const descriptions = normalizeDescriptions(source.descriptions);
+  const key = toDescriptionKey(record.code);
+  // Some CN exports pad headings to 8 digits ("01010000" for "0101")
+  const paddedKey = key.padEnd(DESCRIPTION_KEY_LENGTH, "0");
+  for (const [language, byKey] of sources) {
+    const text = byKey.get(key) ?? byKey.get(paddedKey);
+    if (!text) continue;
+    descriptions[language] = text;
+    matchCounts[language] = (matchCounts[language] ?? 0) + 1;
+  }
+  if (Object.keys(descriptions).length > 0) record.descriptions = descriptions;
+  return record;
+}
+
 function trimRecord(record, index, optionalDropCounts) {
   if (record === null || typeof record !== "object") {
     throw new TypeError(
@@ -53,7 +132,9 @@ function trimRecord(record, index, optionalDropCounts) {
   const trimmed = {};
   for (const field of KEEP_FIELDS) {
     const value = record[field];
-    if ((value === undefined || value === null) && NULLABLE_FIELDS.has(field)) {
+    const isBlank =
+      value === undefined || value === null || String(value).trim() === "";
+    if (isBlank && NULLABLE_FIELDS.has(field)) {
       optionalDropCounts[field] = (optionalDropCounts[field] ?? 0) + 1;
       continue;
     }
@@ -89,26 +170,41 @@ async function main() {
     );
   }
 
+  const descriptionSources = await loadDescriptionSources();
   const optionalDropCounts = {};
+  const descriptionMatchCounts = {};
   const trimmed = data.map((record, index) => {
-    return trimRecord(record, index, optionalDropCounts);
+    return attachDescriptions(
+      trimRecord(record, index, optionalDropCounts),
+      record,
+      descriptionSources,
+      descriptionMatchCounts,
+    );
   });
 
-  // Keep only the latest instance (highest index) of each code
-  const lastIndexByCode = new Map();
+  // Keep every validFrom version of a code (the client builds a rate
+  // timeline from them) but only the latest instance of an exact
+  // code + validFrom pair.
+  const versionKey = (record) => `${record.code}\u0000${record.validFrom}`;
+  const lastIndexByVersion = new Map();
   for (const [index, record] of trimmed.entries()) {
-    lastIndexByCode.set(record.code, index);
+    lastIndexByVersion.set(versionKey(record), index);
   }
-  const deduped = trimmed.filter(
-    (record, index) => lastIndexByCode.get(record.code) === index,
-  );
+  const deduped = trimmed
+    .filter((record, index) => lastIndexByVersion.get(versionKey(record)) === index)
+    .sort((a, b) => {
+      if (a.code !== b.code) return a.code < b.code ? -1 : 1;
+      if (a.validFrom === b.validFrom) return 0;
+      return a.validFrom < b.validFrom ? -1 : 1;
+    });
   const duplicateCount = trimmed.length - deduped.length;
+  const codeCount = new Set(deduped.map((record) => record.code)).size;
   const payload = JSON.stringify(deduped);
   await writeFile(DATA_PATH, payload, "utf8");
   const afterStat = await stat(DATA_PATH);
 
   const removedFields = Object.keys(data[0] ?? {}).filter(
-    (key) => !KEEP_FIELDS.has(key),
+    (key) => !KEEP_FIELDS.has(key) && key !== "descriptions",
   );
 
   const beforeReadable = formatBytes(beforeStat.size);
@@ -126,7 +222,17 @@ async function main() {
     console.log(`Omitted null fields: ${optionalSummary}`);
   }
   if (duplicateCount > 0) {
-    console.log(`Deduplicated ${duplicateCount} records by keeping latest codes.`);
+    console.log(
+      `Deduplicated ${duplicateCount} records sharing the same code and validFrom.`,
+    );
+  }
+  console.log(
+    `Kept ${deduped.length} versions across ${codeCount} distinct codes.`,
+  );
+  for (const [language, byKey] of descriptionSources) {
+    console.log(
+      `Matched ${descriptionMatchCounts[language] ?? 0} rows to ${byKey.size} "${language}" descriptions.`,
+    );
   }
   console.log(`Size: ${beforeReadable} -> ${afterReadable}`);
 }